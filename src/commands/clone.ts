@@ -5,23 +5,50 @@ import chalk from 'chalk';
 import { SSHManager } from '../core/ssh-manager';
 import { GitWrapper } from '../core/git-wrapper';
 import { RepoConfigManager } from '../core/repo-config';
-import { PromptUtils } from '../utils/prompt-utils';
+import { RuleManager } from '../core/rule-manager';
+import { HostKeyManager } from '../core/host-key-manager';
+import { SSHAgent } from '../core/ssh-agent';
+import { KeyPolicyManager } from '../core/key-policy';
+import { PromptUtils, PromptRequiredError, exitIfPromptRequired } from '../utils/prompt-utils';
+import { PathUtils } from '../utils/path-utils';
+import { RemoteUrl } from '../utils/remote-url';
+import { CloneManifest } from '../utils/clone-manifest';
+import { Identity, SSHKey, KeyProbeResult, ManifestEntry } from '../types';
+
+interface ManifestResult {
+  entry: ManifestEntry;
+  targetPath: string;
+  keyPath?: string;
+  error?: string;
+}
 
 export class CloneCommand {
   private sshManager: SSHManager;
   private gitWrapper: GitWrapper;
   private configManager: RepoConfigManager;
+  private ruleManager: RuleManager;
+  private hostKeyManager: HostKeyManager;
+  private sshAgent: SSHAgent;
+  private keyPolicyManager: KeyPolicyManager;
   private promptUtils: PromptUtils;
 
   constructor() {
     this.sshManager = new SSHManager();
     this.gitWrapper = new GitWrapper();
     this.configManager = new RepoConfigManager();
+    this.ruleManager = new RuleManager();
+    this.hostKeyManager = new HostKeyManager();
+    this.sshAgent = new SSHAgent();
+    this.keyPolicyManager = new KeyPolicyManager();
     this.promptUtils = new PromptUtils();
   }
 
-  async execute(repoUrl: string, options: { ssh?: boolean; dir?: string; https?: boolean }): Promise<void> {
+  async execute(repoUrl: string, options: { ssh?: boolean; dir?: string; https?: boolean; identity?: string; key?: string; httpsFallback?: boolean }): Promise<void> {
     try {
+      const identity = options.identity
+        ? await this.configManager.getIdentity(options.identity)
+        : undefined;
+
       // Determine target directory
       const repoName = this.gitWrapper.extractRepoName(repoUrl);
       const targetDir = options.dir || repoName;
@@ -35,7 +62,7 @@ export class CloneCommand {
 
       // Determine clone method
       let useHttps = options.https;
-      if (!useHttps && !repoUrl.startsWith('git@')) {
+      if (!useHttps && !RemoteUrl.isSSH(repoUrl)) {
         // For HTTPS URLs, confirm if user wants to proceed with HTTPS
         useHttps = await this.promptUtils.confirmAction(
           'This is an HTTPS URL. Would you like to proceed with HTTPS clone? (You will need a Personal Access Token for private repos)'
@@ -48,13 +75,13 @@ export class CloneCommand {
 
       // Use HTTPS if requested
       if (useHttps) {
-        await this.cloneWithHTTPS(repoUrl, fullTargetPath);
+        await this.cloneWithHTTPS(repoUrl, fullTargetPath, identity);
         return;
       }
 
       // Try SSH approach for SSH URLs
-      if (repoUrl.startsWith('git@')) {
-        const sshSuccess = await this.trySSHClone(repoUrl, fullTargetPath);
+      if (RemoteUrl.isSSH(repoUrl)) {
+        const sshSuccess = await this.trySSHClone(repoUrl, fullTargetPath, identity, options.key);
         if (!sshSuccess) {
           // Check if directory exists and is not empty before HTTPS fallback
           if (await fs.pathExists(fullTargetPath)) {
@@ -65,6 +92,11 @@ export class CloneCommand {
             }
           }
 
+          if (options.httpsFallback === false) {
+            console.error(chalk.red('❌ SSH clone failed and HTTPS fallback is disabled (--no-https-fallback)'));
+            process.exit(1);
+          }
+
           // Ask user if they want to try HTTPS
           const tryHTTPS = await this.promptUtils.confirmAction(
             'SSH clone failed. Would you like to try HTTPS instead?'
@@ -77,20 +109,188 @@ export class CloneCommand {
 
           // Switch to HTTPS with user confirmation
           const httpsUrl = this.gitWrapper.convertToHTTPS(repoUrl);
-          await this.cloneWithHTTPS(httpsUrl, fullTargetPath);
+          await this.cloneWithHTTPS(httpsUrl, fullTargetPath, identity);
         }
       } else {
         // Direct HTTPS clone
-        await this.cloneWithHTTPS(repoUrl, fullTargetPath);
+        await this.cloneWithHTTPS(repoUrl, fullTargetPath, identity);
       }
 
     } catch (error) {
+      exitIfPromptRequired(error);
       console.error(chalk.red(`❌ Clone failed: ${error}`));
       process.exit(1);
     }
   }
 
-  private async trySSHClone(repoUrl: string, fullTargetPath: string): Promise<boolean> {
+  /**
+   * Clone every repository of a manifest. Keys are chosen up front, once per host/owner,
+   * then the clones run in parallel.
+   */
+  async executeManifest(manifestPath: string, options: { identity?: string; concurrency?: string }): Promise<void> {
+    try {
+      const entries = await CloneManifest.load(manifestPath);
+      const concurrency = options.concurrency ? parseInt(options.concurrency, 10) : 4;
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`Invalid concurrency: ${options.concurrency}`);
+      }
+      const identity = options.identity
+        ? await this.configManager.getIdentity(options.identity)
+        : undefined;
+
+      const results: ManifestResult[] = entries.map(entry => ({
+        entry,
+        targetPath: CloneManifest.targetPath(manifestPath, entry)
+      }));
+      console.log(chalk.blue(`📋 Cloning ${results.length} repositories from ${manifestPath}`));
+
+      for (const result of results) {
+        if (await fs.pathExists(result.targetPath)) {
+          result.error = 'destination path already exists';
+        }
+      }
+
+      await this.chooseManifestKeys(results.filter(result => !result.error && RemoteUrl.isSSH(result.entry.url)), identity);
+
+      // Config writes are read-modify-write, so record results one at a time
+      let recording = Promise.resolve();
+      const pending = results.filter(result => !result.error);
+      const cloneOne = async (result: ManifestResult): Promise<void> => {
+        const { entry, targetPath, keyPath } = result;
+        try {
+          await this.gitWrapper.clone(entry.url, targetPath, keyPath, { branch: entry.branch, depth: entry.depth, quiet: true });
+          await this.gitWrapper.configureRepo(targetPath, keyPath, identity);
+          const record = recording.then(() =>
+            this.configManager.setRepoConfig(targetPath, keyPath || '', entry.url, identity?.name));
+          recording = record.catch(() => undefined);
+          await record;
+          console.log(chalk.green(`✓ ${entry.url}`));
+        } catch (error) {
+          result.error = error instanceof Error ? error.message : String(error);
+          console.log(chalk.red(`✕ ${entry.url}`));
+        }
+      };
+
+      const workers = Array.from({ length: Math.min(concurrency, pending.length) }, async () => {
+        for (let next = pending.shift(); next; next = pending.shift()) {
+          await cloneOne(next);
+        }
+      });
+      await Promise.all(workers);
+
+      console.log(chalk.blue('\n📋 Summary'));
+      console.log(chalk.gray('─'.repeat(50)));
+      results.forEach(({ entry, targetPath, keyPath, error }) => {
+        const target = path.relative(process.cwd(), targetPath) || targetPath;
+        if (error) {
+          // Prefer git's own reason ("fatal: ...") over the command line
+          const lines = error.split('\n').map(line => line.trim()).filter(Boolean);
+          const reason = lines.find(line => line.startsWith('fatal:')) || lines[0];
+          console.log(chalk.red(`✕ ${target}: ${reason}`));
+        } else {
+          console.log(chalk.green(`✓ ${target}`) + chalk.gray(` (${keyPath ? PathUtils.toRelativeSSHPath(keyPath) : 'HTTPS'}) ${entry.url}`));
+        }
+      });
+      const failed = results.filter(result => result.error).length;
+      console.log(chalk.gray(`\n${results.length - failed} cloned, ${failed} failed`));
+
+      if (failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      exitIfPromptRequired(error);
+      console.error(chalk.red(`❌ Manifest clone failed: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Resolve the key of each SSH entry: the entry's own key, then one choice per host/owner group
+   * (identity, rule or prompt). Entries that cannot get a key are marked as failed.
+   */
+  private async chooseManifestKeys(results: ManifestResult[], identity?: Identity): Promise<void> {
+    if (results.length === 0) {
+      return;
+    }
+    const sshKeys = await this.sshManager.discoverSSHKeys();
+
+    const groups = new Map<string, ManifestResult[]>();
+    const detected = new Map<string, SSHKey | null>();   // "key: auto" results, probed once per host/owner
+    for (const result of results) {
+      if (!await this.hostKeyManager.ensureTrustedForUrl(result.entry.url)) {
+        result.error = 'host key not trusted';
+        continue;
+      }
+
+      const remote = RemoteUrl.parse(result.entry.url);
+      const group = `${this.hostKeyManager.hostEntryName(remote.host, remote.port)}/${remote.owner}`;
+      if (result.entry.key === 'auto') {
+        if (!detected.has(group)) {
+          detected.set(group, await this.autoDetectKey(sshKeys, result.entry.url));
+        }
+        result.keyPath = detected.get(group)?.path;
+        result.error = result.keyPath ? undefined : 'no SSH key with access for this host/owner';
+        continue;
+      }
+      if (result.entry.key) {
+        const key = this.sshManager.findKey(sshKeys, result.entry.key);
+        result.keyPath = key?.path;
+        result.error = key ? undefined : `SSH key not found: ${result.entry.key}`;
+        continue;
+      }
+
+      groups.set(group, [...(groups.get(group) || []), result]);
+    }
+
+    for (const [group, members] of groups) {
+      let key: SSHKey | 'auto' | undefined;
+      if (identity) {
+        key = sshKeys.find(candidate => candidate.path === identity.sshKeyPath);
+      } else {
+        const rule = await this.ruleManager.findMatch(members[0].entry.url);
+        key = rule ? sshKeys.find(candidate => candidate.path === rule.sshKeyPath) : undefined;
+        if (rule && key) {
+          console.log(chalk.blue(`🔑 ${group}: ${key.relativePath} (rule: ${rule.pattern})`));
+        }
+      }
+
+      if (!key && !identity && sshKeys.length > 0) {
+        console.log(chalk.blue(`🔑 Select SSH key for ${group} (${members.length} repos):`));
+        key = await this.promptUtils.selectSSHKeyOrAuto(sshKeys);
+      }
+      if (key === 'auto') {
+        key = await this.autoDetectKey(sshKeys, members[0].entry.url) || undefined;
+      }
+
+      const selected = key;
+      const missing = identity
+        ? `SSH key of identity '${identity.name}' was not found: ${identity.sshKeyPath}`
+        : 'no SSH key with access for this host/owner';
+      members.forEach(member => {
+        member.keyPath = selected?.path;
+        member.error = selected ? undefined : missing;
+      });
+    }
+
+    // Parallel clones cannot ask for passphrases, so encrypted keys have to be in ssh-agent first
+    const chosenKeys = new Set(results.filter(result => !result.error && result.keyPath).map(result => result.keyPath!));
+    for (const keyPath of chosenKeys) {
+      const key = sshKeys.find(candidate => candidate.path === keyPath) || await this.sshManager.describeKey(keyPath);
+      if (!await this.keyPolicyManager.enforce(key)) {
+        results.filter(result => result.keyPath === keyPath).forEach(result => {
+          result.error = `${key.relativePath} is refused by the key policy`;
+        });
+        continue;
+      }
+      if (!await this.sshAgent.ensureLoaded(key)) {
+        results.filter(result => result.keyPath === keyPath).forEach(result => {
+          result.error = `${key.relativePath} is protected by a passphrase and not loaded in ssh-agent`;
+        });
+      }
+    }
+  }
+
+  private async trySSHClone(repoUrl: string, fullTargetPath: string, identity?: Identity, keyOption?: string): Promise<boolean> {
     try {
       const sshKeys = await this.sshManager.discoverSSHKeys();
       
@@ -99,9 +299,60 @@ export class CloneCommand {
         return false;
       }
 
-      // Interactive SSH key selection
-      console.log(chalk.blue('🔑 Select SSH key for this repository:'));
-      const selectedKey = await this.promptUtils.selectSSHKey(sshKeys);
+      if (!await this.hostKeyManager.ensureTrustedForUrl(repoUrl)) {
+        console.log(chalk.yellow('⚠️  Host key not trusted, SSH clone skipped'));
+        return false;
+      }
+
+      let selectedKey: SSHKey | 'auto' | undefined;
+      if (keyOption === 'auto') {
+        selectedKey = 'auto';
+      } else if (keyOption) {
+        selectedKey = this.sshManager.findKey(sshKeys, keyOption);
+        if (!selectedKey) {
+          console.log(chalk.red(`SSH key not found: ${keyOption}`));
+          return false;
+        }
+      }
+
+      // A matching rule picks the key without prompting
+      const rule = identity || selectedKey ? null : await this.ruleManager.findMatch(repoUrl);
+      if (rule) {
+        selectedKey = sshKeys.find(key => key.path === rule.sshKeyPath);
+        if (selectedKey) {
+          console.log(chalk.blue(`🔑 Using SSH key ${selectedKey.relativePath} (rule: ${rule.pattern})`));
+        } else {
+          console.log(chalk.yellow(`⚠️  Key of rule '${rule.pattern}' not found: ${rule.sshKeyPath}`));
+        }
+      }
+
+      if (!identity && !selectedKey) {
+        identity = await this.promptUtils.selectIdentity(await this.configManager.getIdentities()) || undefined;
+      }
+
+      if (identity && !selectedKey) {
+        selectedKey = sshKeys.find(key => key.path === identity!.sshKeyPath);
+        if (!selectedKey) {
+          console.log(chalk.red(`SSH key of identity '${identity.name}' was not found: ${identity.sshKeyPath}`));
+          return false;
+        }
+      }
+
+      if (!selectedKey) {
+        // Interactive SSH key selection
+        console.log(chalk.blue('🔑 Select SSH key for this repository:'));
+        selectedKey = await this.promptUtils.selectSSHKeyOrAuto(sshKeys);
+      }
+
+      let alreadyTested = false;
+      if (selectedKey === 'auto') {
+        const detectedKey = await this.autoDetectKey(sshKeys, repoUrl);
+        if (!detectedKey) {
+          return false;
+        }
+        selectedKey = detectedKey;
+        alreadyTested = true;
+      }
 
       if (!await fs.pathExists(selectedKey.path)) {
         console.log(chalk.red(`Selected SSH key does not exist: ${selectedKey.path}`));
@@ -115,40 +366,82 @@ export class CloneCommand {
         selectedKey.relativePath = newKey.relativePath;
       }
       
-      // Test SSH connection
-      console.log(chalk.blue('🔐 Testing SSH connection...'));
-      const testResult = await this.sshManager.testSSHKey(selectedKey.path, repoUrl);
-      
-      if (!testResult.success) {
-        console.log(chalk.yellow(`⚠️  SSH test failed: ${testResult.error}`));
-        const tryAnyway = await this.promptUtils.confirmAction(
-          'SSH test failed. Try cloning anyway?'
-        );
-        if (!tryAnyway) {
-          return false;
+      if (!await this.keyPolicyManager.enforce(selectedKey)) {
+        console.error(chalk.red('❌ Clone refused by the key policy'));
+        process.exit(1);
+      }
+
+      // Offer ssh-agent for passphrase-protected keys; if declined, the test says so and git asks for the passphrase
+      await this.sshAgent.ensureLoaded(selectedKey);
+
+      // Test SSH connection (auto-detection already verified repository access)
+      if (!alreadyTested) {
+        console.log(chalk.blue('🔐 Testing SSH connection...'));
+        const testResult = await this.sshManager.testSSHKey(selectedKey.path, repoUrl);
+
+        if (!testResult.success) {
+          console.log(chalk.yellow(`⚠️  SSH test failed: ${testResult.error}`));
+          const tryAnyway = await this.promptUtils.confirmAction(
+            'SSH test failed. Try cloning anyway?',
+            false
+          );
+          if (!tryAnyway) {
+            return false;
+          }
+        } else {
+          console.log(chalk.green('✅ SSH connection successful'));
         }
-      } else {
-        console.log(chalk.green('✅ SSH connection successful'));
       }
 
       // Clone with selected SSH key
       await this.gitWrapper.clone(repoUrl, fullTargetPath, selectedKey.path);
-      await this.gitWrapper.configureRepo(fullTargetPath, selectedKey.path);
-      await this.configManager.setRepoConfig(fullTargetPath, selectedKey.path, repoUrl);
+      await this.gitWrapper.configureRepo(fullTargetPath, selectedKey.path, identity);
+      await this.configManager.setRepoConfig(fullTargetPath, selectedKey.path, repoUrl, identity?.name);
 
       console.log(chalk.green(`✅ Repository cloned successfully with SSH key: ${selectedKey.relativePath}`));
       return true;
 
     } catch (error) {
+      if (error instanceof PromptRequiredError) {
+        throw error;
+      }
       console.log(chalk.yellow(`⚠️  SSH clone failed: ${error}`));
       return false;
     }
   }
 
-  private async cloneWithHTTPS(repoUrl: string, fullTargetPath: string): Promise<void> {
+  private async autoDetectKey(sshKeys: SSHKey[], repoUrl: string): Promise<SSHKey | null> {
+    console.log(chalk.blue(`🔍 Testing ${sshKeys.length} SSH keys against the repository...`));
+    const results = await this.sshManager.probeKeys(sshKeys, repoUrl);
+    this.printProbeTable(results);
+
+    // Keep discovery order so the choice is stable between runs
+    const winner = results.find(result => result.success);
+    if (!winner) {
+      console.log(chalk.yellow('⚠️  None of your SSH keys can access this repository'));
+      return null;
+    }
+
+    console.log(chalk.green(`✅ Auto-detected SSH key: ${winner.key.relativePath}`));
+    return winner.key;
+  }
+
+  private printProbeTable(results: KeyProbeResult[]): void {
+    const nameWidth = Math.max(3, ...results.map(result => result.key.name.length));
+    const mark = (value?: boolean) => value ? chalk.green('✓'.padEnd(13)) : chalk.red('✕'.padEnd(13));
+
+    console.log(chalk.gray(`${'Key'.padEnd(nameWidth)}  ${'Authenticated'.padEnd(13)}  Repo access`));
+    console.log(chalk.gray('─'.repeat(nameWidth + 28)));
+    results.forEach(result => {
+      console.log(`${result.key.name.padEnd(nameWidth)}  ${mark(result.authenticated)}  ${result.success ? chalk.green('✓') : chalk.red('✕')}`);
+    });
+    console.log();
+  }
+
+  private async cloneWithHTTPS(repoUrl: string, fullTargetPath: string, identity?: Identity): Promise<void> {
     try {
       // Convert SSH URL to HTTPS if needed
-      const httpsUrl = repoUrl.startsWith('git@') 
+      const httpsUrl = RemoteUrl.isSSH(repoUrl) 
         ? this.gitWrapper.convertToHTTPS(repoUrl)
         : repoUrl;
 
@@ -156,10 +449,10 @@ export class CloneCommand {
       await this.gitWrapper.clone(httpsUrl, fullTargetPath);
 
       // Configure repository for HTTPS
-      await this.gitWrapper.configureRepo(fullTargetPath);
+      await this.gitWrapper.configureRepo(fullTargetPath, undefined, identity);
 
       // Save configuration
-      await this.configManager.setRepoConfig(fullTargetPath, '', httpsUrl);
+      await this.configManager.setRepoConfig(fullTargetPath, '', httpsUrl, identity?.name);
 
     } catch (error) {
       // Provide helpful error messages
@@ -201,7 +494,7 @@ export class CloneCommand {
 
       console.log(chalk.blue(`Current remote: ${currentUrl}`));
 
-      if (currentUrl.startsWith('git@')) {
+      if (RemoteUrl.isSSH(currentUrl)) {
         // SSH repository - try to fix SSH or switch to HTTPS
         const fixSSH = await this.promptUtils.confirmAction(
           'Try to fix SSH configuration?'
@@ -0,0 +1,49 @@
+import chalk from 'chalk';
+import { RepoConfigManager } from '../core/repo-config';
+import { PathUtils } from '../utils/path-utils';
+import { CURRENT_CONFIG_VERSION } from '../utils/config-schema';
+
+export class ConfigCommand {
+  private configManager: RepoConfigManager;
+
+  constructor() {
+    this.configManager = new RepoConfigManager();
+  }
+
+  /**
+   * Check ~/.gitsm/config.json without changing it (migrations only run on a normal load)
+   */
+  async validate(): Promise<void> {
+    try {
+      const configPath = PathUtils.toRelativeSSHPath(this.configManager.getConfigPath());
+      const { exists, version, migrations, issues } = await this.configManager.inspectConfig();
+
+      if (!exists) {
+        console.log(chalk.yellow(`${configPath} does not exist yet; gitsm creates it on first use.`));
+        return;
+      }
+
+      console.log(chalk.blue(`🔎 ${configPath}`));
+      if (version !== null) {
+        console.log(chalk.gray(`Version: ${version} (current: ${CURRENT_CONFIG_VERSION})`));
+      }
+      if (migrations.length > 0) {
+        console.log(chalk.yellow('Pending migrations (applied, with a backup, the next time gitsm loads the file):'));
+        migrations.forEach(migration => console.log(chalk.gray(`   ${migration}`)));
+      }
+
+      if (issues.length === 0) {
+        console.log(chalk.green('✓ Config is valid'));
+        return;
+      }
+
+      console.log(chalk.red(`\n✕ ${issues.length} problem${issues.length === 1 ? '' : 's'} found:`));
+      issues.forEach(issue => console.log(chalk.red(`   - ${issue}`)));
+      console.log(chalk.gray('\nFix the file by hand, or restore a config.json.v<version>.bak backup from the same directory.'));
+      process.exit(1);
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to validate config: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+}
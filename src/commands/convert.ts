@@ -4,54 +4,80 @@ import chalk from 'chalk';
 import { SSHManager } from '../core/ssh-manager';
 import { GitWrapper } from '../core/git-wrapper';
 import { RepoConfigManager } from '../core/repo-config';
-import { PromptUtils } from '../utils/prompt-utils';
+import { RuleManager } from '../core/rule-manager';
+import { HostKeyManager } from '../core/host-key-manager';
+import { SSHAgent } from '../core/ssh-agent';
+import { KeyPolicyManager } from '../core/key-policy';
+import { PromptUtils, exitIfPromptRequired } from '../utils/prompt-utils';
+import { RemoteUrl } from '../utils/remote-url';
+import { SSHKey, Identity } from '../types';
 
 interface ConversionResult {
     success: boolean;
     error?: string;
 }
 
+interface WorkspaceRepo {
+    repoPath: string;
+    remoteUrl: string;
+    targetUrl: string;   // SSH form of remoteUrl
+}
+
+interface RepoGroup {
+    name: string;        // host/owner
+    repos: WorkspaceRepo[];
+    key?: SSHKey;
+    source?: string;     // How the key was chosen: rule or probe
+}
+
 export class ConvertCommand {
     private sshManager: SSHManager;
     private gitWrapper: GitWrapper;
     private configManager: RepoConfigManager;
+    private ruleManager: RuleManager;
+    private hostKeyManager: HostKeyManager;
+    private sshAgent: SSHAgent;
+    private keyPolicyManager: KeyPolicyManager;
     private promptUtils: PromptUtils;
 
     constructor() {
         this.sshManager = new SSHManager();
         this.gitWrapper = new GitWrapper();
         this.configManager = new RepoConfigManager();
+        this.ruleManager = new RuleManager();
+        this.hostKeyManager = new HostKeyManager();
+        this.sshAgent = new SSHAgent();
+        this.keyPolicyManager = new KeyPolicyManager();
         this.promptUtils = new PromptUtils();
     }
 
     private convertHttpsToSsh(httpsUrl: string): string {
         try {
-            // Convert https://github.com/user/repo.git to git@github.com:user/repo.git
-            const url = new URL(httpsUrl);
-            const pathParts = url.pathname.split('/');
-            const user = pathParts[1];
-            const repo = pathParts[2].replace(/\.git$/, ''); // Remove .git if present
-            return `git@${url.hostname}:${user}/${repo}.git`;
+            // Keeps the full path, so GitLab subgroups and Azure DevOps projects survive the conversion
+            return RemoteUrl.parse(httpsUrl).toSSH().format();
         } catch (error) {
             throw new Error(`Invalid HTTPS URL: ${httpsUrl}`);
         }
     }
 
-    async execute(repoPath: string = '.'): Promise<void> {
+    async execute(repoPath: string = '.', options: { identity?: string; key?: string } = {}): Promise<void> {
         try {
             const fullRepoPath = path.resolve(repoPath);
+            let identity = options.identity
+                ? await this.configManager.getIdentity(options.identity)
+                : undefined;
 
             // Verify it's a git repository
             if (!this.gitWrapper.isGitRepository(fullRepoPath)) {
                 console.error(chalk.red('❌ Not a git repository'));
-                return;
+                process.exit(1);
             }
 
             // Get current remote URL
             const remoteUrl = await this.gitWrapper.getRemoteUrl(fullRepoPath);
             if (!remoteUrl) {
                 console.error(chalk.red('❌ No remote URL found'));
-                return;
+                process.exit(1);
             }
 
             console.log(chalk.blue(`Converting repository: ${fullRepoPath}`));
@@ -63,14 +89,20 @@ export class ConvertCommand {
                 console.log(chalk.red('❌ No SSH keys found in ~/.ssh directory'));
                 console.log(chalk.gray('Please generate an SSH key first and add it to your Git provider'));
                 console.log(chalk.gray('You can use: ssh-keygen -t ed25519 -C "your@email.com"'));
-                return;
+                process.exit(1);
+            }
+
+            let selectedKey = options.key ? this.sshManager.findKey(sshKeys, options.key) : undefined;
+            if (options.key && !selectedKey) {
+                console.error(chalk.red(`❌ SSH key not found: ${options.key}`));
+                process.exit(1);
             }
 
             // Handle URL conversion if needed
             let targetUrl = remoteUrl;
             let urlChanged = false;
 
-            if (remoteUrl.startsWith('https://')) {
+            if (!RemoteUrl.isSSH(remoteUrl)) {
                 const switchToSSH = await this.promptUtils.confirmAction(
                     'Repository is using HTTPS. Would you like to switch to SSH?'
                 );
@@ -82,7 +114,7 @@ export class ConvertCommand {
                         urlChanged = true;
                     } catch (error) {
                         console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
-                        return;
+                        process.exit(1);
                     }
                 } else {
                     console.log(chalk.yellow('⚠️ Keeping HTTPS configuration'));
@@ -91,10 +123,47 @@ export class ConvertCommand {
                 }
             }
 
-            // Select SSH key
-            console.log(chalk.blue('\n🔑 Select SSH key to use with this repository:'));
-            const selectedKey = await this.promptUtils.selectSSHKey(sshKeys);
+            if (!await this.hostKeyManager.ensureTrustedForUrl(targetUrl)) {
+                console.log(chalk.gray('Aborting. The host key must be trusted before gitsm can use SSH with it.'));
+                process.exit(1);
+            }
+
+            // --key wins, then a matching rule picks the key without prompting
+            const rule = identity || selectedKey ? null : await this.ruleManager.findMatch(targetUrl);
+            if (rule) {
+                selectedKey = sshKeys.find(key => key.path === rule.sshKeyPath);
+            }
+            if (rule && selectedKey) {
+                console.log(chalk.blue(`\n🔑 Using SSH key ${selectedKey.relativePath} (rule: ${rule.pattern})`));
+            } else if (rule) {
+                console.log(chalk.yellow(`⚠️ Key of rule '${rule.pattern}' not found: ${rule.sshKeyPath}`));
+            }
+
+            if (!identity && !selectedKey) {
+                identity = await this.promptUtils.selectIdentity(await this.configManager.getIdentities()) || undefined;
+            }
+
+            // Select SSH key (an identity already brings its own)
+            if (identity && !options.key) {
+                selectedKey = sshKeys.find(key => key.path === identity!.sshKeyPath);
+                if (!selectedKey) {
+                    console.error(chalk.red(`❌ SSH key of identity '${identity.name}' was not found: ${identity.sshKeyPath}`));
+                    process.exit(1);
+                }
+            }
+            if (!selectedKey) {
+                console.log(chalk.blue('\n🔑 Select SSH key to use with this repository:'));
+                selectedKey = await this.promptUtils.selectSSHKey(sshKeys);
+            }
             
+            if (!await this.keyPolicyManager.enforce(selectedKey)) {
+                console.error(chalk.red('❌ Conversion refused by the key policy'));
+                process.exit(1);
+            }
+
+            // The test runs in batch mode, so passphrase-protected keys must be in ssh-agent
+            await this.sshAgent.ensureLoaded(selectedKey);
+
             // Test SSH connection before making any changes
             console.log(chalk.blue('\n🔐 Testing SSH connection...'));
             const testResult = await this.sshManager.testSSHKey(selectedKey.path, targetUrl);
@@ -108,12 +177,13 @@ export class ConvertCommand {
                 console.log(chalk.yellow('\nError details:', testResult.error));
 
                 const proceedAnyway = await this.promptUtils.confirmAction(
-                    'Would you like to proceed with the configuration anyway? (Not recommended)'
+                    'Would you like to proceed with the configuration anyway? (Not recommended)',
+                    false
                 );
 
                 if (!proceedAnyway) {
                     console.log(chalk.gray('Aborting. Please fix the SSH access issues and try again.'));
-                    return;
+                    process.exit(1);
                 }
 
                 console.log(chalk.yellow('⚠️ Proceeding with configuration despite SSH test failure'));
@@ -124,22 +194,227 @@ export class ConvertCommand {
             // Update configuration
             console.log(chalk.blue('\n📝 Updating repository configuration...'));
 
-            // Update remote URL if it changed
-            if (urlChanged) {
-                await this.gitWrapper.setRemoteUrl(fullRepoPath, targetUrl);
-                console.log(chalk.green('✅ Updated remote URL to use SSH'));
-            }
-
-            // Configure repository to use the selected SSH key
-            await this.gitWrapper.configureRepo(fullRepoPath, selectedKey.path);
-            await this.configManager.setRepoConfig(fullRepoPath, selectedKey.path, targetUrl);
+            await this.applyConversion(fullRepoPath, remoteUrl, urlChanged ? targetUrl : remoteUrl, selectedKey, identity);
 
             console.log(chalk.green(`\n✅ Repository successfully configured to use gitsm with SSH key: ${selectedKey.relativePath}`));
             console.log(chalk.gray('You can now use gitsm commands with this repository'));
 
         } catch (error) {
+            exitIfPromptRequired(error);
+            console.error(chalk.red(`\n❌ Conversion failed: ${error instanceof Error ? error.message : String(error)}`));
+            process.exit(1);
+        }
+    }
+
+    /**
+     * Convert every repository below a workspace directory, choosing one key per host/owner group
+     */
+    async executeAll(workspaceDir: string, options: { identity?: string; key?: string } = {}): Promise<void> {
+        try {
+            const rootDir = path.resolve(workspaceDir);
+            if (!await fs.pathExists(rootDir)) {
+                console.error(chalk.red(`❌ Directory not found: ${rootDir}`));
+                process.exit(1);
+            }
+            const identity = options.identity
+                ? await this.configManager.getIdentity(options.identity)
+                : undefined;
+
+            console.log(chalk.blue(`🔍 Scanning ${rootDir} for repositories...`));
+            const repoPaths = await this.gitWrapper.findRepositories(rootDir);
+            const { groups, skipped } = await this.groupRepositories(repoPaths);
+
+            console.log(chalk.gray(`Found ${repoPaths.length} repositories in ${groups.length} group(s)`));
+            skipped.forEach(({ repoPath, reason }) => console.log(chalk.gray(`   skipped ${path.relative(rootDir, repoPath) || '.'}: ${reason}`)));
+            if (groups.length === 0) {
+                return;
+            }
+
+            const sshKeys = await this.sshManager.discoverSSHKeys();
+            if (sshKeys.length === 0) {
+                console.log(chalk.red('❌ No SSH keys found in ~/.ssh directory'));
+                process.exit(1);
+            }
+
+            if (options.key) {
+                const key = this.sshManager.findKey(sshKeys, options.key);
+                if (!key) {
+                    console.error(chalk.red(`❌ SSH key not found: ${options.key}`));
+                    process.exit(1);
+                }
+                groups.forEach(group => {
+                    group.key = key;
+                    group.source = '--key';
+                });
+            } else if (identity) {
+                const identityKey = sshKeys.find(key => key.path === identity.sshKeyPath);
+                if (!identityKey) {
+                    console.error(chalk.red(`❌ SSH key of identity '${identity.name}' was not found: ${identity.sshKeyPath}`));
+                    process.exit(1);
+                }
+                groups.forEach(group => {
+                    group.key = identityKey;
+                    group.source = `identity ${identity.name}`;
+                });
+            }
+
+            // Trust each host once, then propose a key per group
+            const untrusted = new Set<string>();
+            const hosts = new Map(groups.map(group => {
+                const remote = RemoteUrl.parse(group.repos[0].targetUrl);
+                return [this.hostKeyManager.hostEntryName(remote.host, remote.port), remote] as const;
+            }));
+            for (const [hostName, remote] of hosts) {
+                if (!await this.hostKeyManager.ensureTrusted(remote.host, remote.port)) {
+                    untrusted.add(hostName);
+                }
+            }
+
+            // Key tests run in batch mode, so only keys usable without a passphrase prompt are probed
+            let probeKeys: SSHKey[] | undefined;
+            for (const group of groups) {
+                const sample = RemoteUrl.parse(group.repos[0].targetUrl);
+                if (untrusted.has(this.hostKeyManager.hostEntryName(sample.host, sample.port))) {
+                    group.source = 'host not trusted';
+                    group.key = undefined;
+                    continue;
+                }
+                if (!group.key) {
+                    if (!probeKeys) {
+                        probeKeys = [];
+                        for (const key of sshKeys) {
+                            if (await this.sshAgent.ensureLoaded(key)) {
+                                probeKeys.push(key);
+                            }
+                        }
+                    }
+                    await this.proposeKey(group, sshKeys, probeKeys);
+                }
+            }
+
+            this.printGroupTable(groups);
+
+            const approved = await this.promptUtils.selectMany('Groups to convert:', groups
+                .filter(group => group.source !== 'host not trusted')
+                .map(group => ({
+                    name: `${group.name} (${group.repos.length} repos) -> ${group.key ? group.key.relativePath : 'choose a key'}`,
+                    value: group,
+                    checked: !!group.key
+                })));
+            if (approved.length === 0) {
+                console.log(chalk.gray('Nothing selected.'));
+                return;
+            }
+
+            for (const group of approved.filter(candidate => !candidate.key)) {
+                console.log(chalk.blue(`\n🔑 Select SSH key for ${group.name}:`));
+                group.key = await this.promptUtils.selectSSHKey(sshKeys);
+            }
+
+            const results: { repo: WorkspaceRepo; success: boolean; error?: string }[] = [];
+            for (const group of approved) {
+                if (!await this.keyPolicyManager.enforce(group.key!)) {
+                    group.repos.forEach(repo => results.push({ repo, success: false, error: `${group.key!.relativePath} is refused by the key policy` }));
+                    continue;
+                }
+                // If declined, git asks for the passphrase on every fetch and push instead
+                await this.sshAgent.ensureLoaded(group.key!);
+                for (const repo of group.repos) {
+                    console.log(chalk.blue(`\n📝 ${path.relative(rootDir, repo.repoPath) || repo.repoPath}`));
+                    try {
+                        await this.applyConversion(repo.repoPath, repo.remoteUrl, repo.targetUrl, group.key!, identity);
+                        results.push({ repo, success: true });
+                    } catch (error) {
+                        results.push({ repo, success: false, error: error instanceof Error ? error.message : String(error) });
+                    }
+                }
+            }
+
+            console.log(chalk.blue('\n📋 Summary'));
+            console.log(chalk.gray('─'.repeat(50)));
+            results.forEach(({ repo, success, error }) => {
+                const name = path.relative(rootDir, repo.repoPath) || repo.repoPath;
+                console.log(success ? chalk.green(`✓ ${name}`) : chalk.red(`✕ ${name}: ${error}`));
+            });
+            const failed = results.filter(result => !result.success).length;
+            console.log(chalk.gray(`\n${results.length - failed} converted, ${failed} failed`));
+
+            if (failed > 0) {
+                process.exit(1);
+            }
+        } catch (error) {
+            exitIfPromptRequired(error);
             console.error(chalk.red(`\n❌ Conversion failed: ${error instanceof Error ? error.message : String(error)}`));
             process.exit(1);
         }
     }
+
+    private async groupRepositories(repoPaths: string[]): Promise<{ groups: RepoGroup[]; skipped: { repoPath: string; reason: string }[] }> {
+        const groups = new Map<string, RepoGroup>();
+        const skipped: { repoPath: string; reason: string }[] = [];
+
+        for (const repoPath of repoPaths) {
+            const remoteUrl = await this.gitWrapper.getRemoteUrl(repoPath);
+            const remote = remoteUrl ? RemoteUrl.tryParse(remoteUrl) : null;
+            if (!remoteUrl || !remote) {
+                skipped.push({ repoPath, reason: remoteUrl ? `unsupported remote ${remoteUrl}` : 'no origin remote' });
+                continue;
+            }
+
+            const ssh = remote.toSSH();
+            const name = `${ssh.host}${ssh.port ? `:${ssh.port}` : ''}/${remote.owner}`;
+            const group = groups.get(name) || { name, repos: [] };
+            group.repos.push({ repoPath, remoteUrl, targetUrl: ssh.format() });
+            groups.set(name, group);
+        }
+
+        return { groups: [...groups.values()].sort((a, b) => a.name.localeCompare(b.name)), skipped };
+    }
+
+    /**
+     * A matching rule wins; otherwise every key that can be tested is tried against the first repository of the group
+     */
+    private async proposeKey(group: RepoGroup, sshKeys: SSHKey[], probeKeys: SSHKey[]): Promise<void> {
+        const sampleUrl = group.repos[0].targetUrl;
+        const rule = await this.ruleManager.findMatch(sampleUrl);
+        const ruleKey = rule ? sshKeys.find(key => key.path === rule.sshKeyPath) : undefined;
+        if (rule && ruleKey) {
+            group.key = ruleKey;
+            group.source = `rule ${rule.pattern}`;
+            return;
+        }
+
+        console.log(chalk.gray(`Testing ${probeKeys.length} key(s) against ${group.name}...`));
+        const results = await this.sshManager.probeKeys(probeKeys, sampleUrl);
+        const winner = results.find(result => result.success);
+        const untested = sshKeys.length - probeKeys.length;
+        group.key = winner?.key;
+        group.source = winner
+            ? 'tested'
+            : untested > 0 ? `no key has access (${untested} not in ssh-agent, untested)` : 'no key has access';
+    }
+
+    private printGroupTable(groups: RepoGroup[]): void {
+        const nameWidth = Math.max(5, ...groups.map(group => group.name.length));
+        const keyWidth = Math.max(12, ...groups.map(group => group.key?.relativePath.length || 0));
+
+        console.log();
+        console.log(chalk.gray(`${'Group'.padEnd(nameWidth)}  Repos  ${'Proposed key'.padEnd(keyWidth)}  Source`));
+        console.log(chalk.gray('─'.repeat(nameWidth + keyWidth + 25)));
+        groups.forEach(group => {
+            const key = group.key ? chalk.green(group.key.relativePath.padEnd(keyWidth)) : chalk.yellow('—'.padEnd(keyWidth));
+            console.log(`${group.name.padEnd(nameWidth)}  ${String(group.repos.length).padStart(5)}  ${key}  ${chalk.gray(group.source || '')}`);
+        });
+        console.log();
+    }
+
+    private async applyConversion(repoPath: string, remoteUrl: string, targetUrl: string, key: SSHKey, identity?: Identity): Promise<void> {
+        if (remoteUrl !== targetUrl) {
+            await this.gitWrapper.setRemoteUrl(repoPath, targetUrl);
+            console.log(chalk.green('✅ Updated remote URL to use SSH'));
+        }
+
+        await this.gitWrapper.configureRepo(repoPath, key.path, identity);
+        await this.configManager.setRepoConfig(repoPath, key.path, targetUrl, identity?.name);
+    }
 }
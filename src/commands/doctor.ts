@@ -0,0 +1,324 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import { SSHManager } from '../core/ssh-manager';
+import { GitWrapper } from '../core/git-wrapper';
+import { RepoConfigManager } from '../core/repo-config';
+import { HostKeyManager } from '../core/host-key-manager';
+import { PathUtils } from '../utils/path-utils';
+import { ProcessRunner, ProcessError } from '../utils/process-runner';
+import { RemoteUrl } from '../utils/remote-url';
+import { OutputFormatter } from '../utils/output-format';
+
+type CheckStatus = 'pass' | 'warn' | 'fail';
+
+interface DoctorCheck {
+  status: CheckStatus;
+  title: string;
+  detail?: string;
+  hint?: string;
+  remedy?: () => Promise<void>;   // Safe automatic fix, applied with --fix
+}
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  pass: chalk.green('✓'),
+  warn: chalk.yellow('⚠'),
+  fail: chalk.red('✕')
+};
+
+export class DoctorCommand {
+  private sshManager: SSHManager;
+  private gitWrapper: GitWrapper;
+  private configManager: RepoConfigManager;
+  private hostKeyManager: HostKeyManager;
+
+  constructor() {
+    this.sshManager = new SSHManager();
+    this.gitWrapper = new GitWrapper();
+    this.configManager = new RepoConfigManager();
+    this.hostKeyManager = new HostKeyManager();
+  }
+
+  async execute(options: { fix?: boolean; json?: boolean; format?: string } = {}): Promise<void> {
+    try {
+      const format = OutputFormatter.resolve(options);
+      const table = format === 'table';
+      if (table) {
+        console.log(chalk.blue('🩺 Checking your gitsm setup...'));
+      }
+
+      const sections: [string, () => Promise<DoctorCheck[]>][] = [
+        ['Tools', () => this.checkTools()],
+        ['SSH keys', () => this.checkSSHDirectory()],
+        ['Known hosts', () => this.checkKnownHosts()],
+        ['Repositories', () => this.checkRepositories()],
+        ['Connectivity', () => this.checkConnectivity()]
+      ];
+
+      const counts: Record<CheckStatus, number> = { pass: 0, warn: 0, fail: 0 };
+      const results: { section: string; status: CheckStatus; title: string; detail: string | null; hint: string | null; fixed: boolean }[] = [];
+      let fixed = 0;
+
+      for (const [title, run] of sections) {
+        if (table) {
+          console.log(chalk.blue(`\n${title}`));
+        }
+        const checks = await run();
+        if (checks.length === 0 && table) {
+          console.log(chalk.gray('  (nothing to check)'));
+        }
+
+        for (const check of checks) {
+          if (options.fix && check.status !== 'pass' && check.remedy) {
+            try {
+              await check.remedy();
+              results.push({ section: title, status: 'pass', title: check.title, detail: check.detail || null, hint: null, fixed: true });
+              if (table) {
+                console.log(`  ${chalk.green('✓')} ${check.title} ${chalk.green('(fixed)')}`);
+              }
+              counts.pass++;
+              fixed++;
+              continue;
+            } catch (error) {
+              check.detail = `fix failed: ${error instanceof Error ? error.message : error}`;
+            }
+          }
+
+          counts[check.status]++;
+          results.push({ section: title, status: check.status, title: check.title, detail: check.detail || null, hint: check.hint || null, fixed: false });
+          if (!table) {
+            continue;
+          }
+          console.log(`  ${STATUS_ICONS[check.status]} ${check.title}${check.detail ? chalk.gray(` - ${check.detail}`) : ''}`);
+          if (check.status !== 'pass' && check.hint) {
+            console.log(chalk.gray(`      ${check.hint}${check.remedy && !options.fix ? ' (or run "gitsm doctor --fix")' : ''}`));
+          }
+        }
+      }
+
+      if (format === 'json') {
+        OutputFormatter.printJson({ checks: results, summary: { ...counts, fixed } });
+      } else if (format === 'tsv') {
+        OutputFormatter.printTsv(
+          ['section', 'status', 'title', 'detail', 'hint', 'fixed'],
+          results.map(result => [result.section, result.status, result.title, result.detail, result.hint, result.fixed])
+        );
+      } else {
+        console.log(chalk.gray(`\n${counts.pass} passed, ${counts.warn} warning(s), ${counts.fail} failed${options.fix ? `, ${fixed} fixed` : ''}`));
+      }
+
+      if (counts.fail > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ Doctor failed: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  private async checkTools(): Promise<DoctorCheck[]> {
+    return Promise.all([
+      this.checkTool('git', ['--version'], true),
+      this.checkTool('ssh', ['-V'], true),
+      this.checkTool('ssh-keygen', ['-?'], true),
+      this.checkTool('ssh-keyscan', ['-?'], false)
+    ]);
+  }
+
+  private async checkTool(command: string, args: string[], required: boolean): Promise<DoctorCheck> {
+    let output: string;
+    try {
+      const result = await ProcessRunner.run(command, args, { timeout: 5000 });
+      output = `${result.stdout}\n${result.stderr}`;
+    } catch (error) {
+      // ssh-keygen and ssh-keyscan print usage and exit non-zero; only a failed spawn means missing
+      if (!(error instanceof ProcessError) || error.exitCode === -1) {
+        return {
+          status: required ? 'fail' : 'warn',
+          title: `${command} not found`,
+          hint: `Install OpenSSH/Git and make sure ${command} is on your PATH`
+        };
+      }
+      output = `${error.stdout}\n${error.stderr}`;
+    }
+
+    const version = command === 'git' || command === 'ssh'
+      ? output.split('\n').map(line => line.trim()).find(Boolean)
+      : undefined;
+    return { status: 'pass', title: command, detail: version || 'installed' };
+  }
+
+  private async checkSSHDirectory(): Promise<DoctorCheck[]> {
+    const sshDir = this.sshManager.getSSHDirectory();
+    const checks: DoctorCheck[] = [];
+
+    if (!await fs.pathExists(sshDir)) {
+      return [{
+        status: 'fail',
+        title: `${sshDir} does not exist`,
+        hint: 'Create a key with "gitsm key generate"'
+      }];
+    }
+
+    if (process.platform !== 'win32') {
+      const mode = (await fs.stat(sshDir)).mode & parseInt('777', 8);
+      checks.push(mode & parseInt('077', 8)
+        ? {
+          status: 'warn',
+          title: '~/.ssh is accessible by other users',
+          detail: `mode ${mode.toString(8)}`,
+          hint: `chmod 700 ${sshDir}`,
+          remedy: () => fs.chmod(sshDir, '700')
+        }
+        : { status: 'pass', title: '~/.ssh permissions', detail: `mode ${mode.toString(8)}` });
+    }
+
+    const keyFiles = await this.sshManager.listKeyFiles();
+    if (keyFiles.length === 0) {
+      checks.push({ status: 'warn', title: 'No SSH keys found', hint: 'Create one with "gitsm key generate"' });
+    }
+
+    for (const keyFile of keyFiles) {
+      const keyPath = path.join(sshDir, keyFile);
+      const { secure, mode } = await this.sshManager.checkKeyPermissions(keyPath);
+      const hasPublicKey = await fs.pathExists(`${keyPath}.pub`);
+
+      if (!secure) {
+        checks.push({
+          status: 'fail',
+          title: `~/.ssh/${keyFile} permissions are too open`,
+          detail: `mode ${mode}, ssh refuses to use it`,
+          hint: `chmod 600 ${keyPath}`,
+          remedy: () => this.sshManager.fixKeyPermissions(keyPath)
+        });
+      } else if (!hasPublicKey) {
+        checks.push({
+          status: 'warn',
+          title: `~/.ssh/${keyFile} has no public key`,
+          detail: 'gitsm ignores keys without a .pub file',
+          hint: `ssh-keygen -y -f ${keyPath} > ${keyPath}.pub`
+        });
+      } else {
+        checks.push({ status: 'pass', title: `~/.ssh/${keyFile}`, detail: mode ? `mode ${mode}` : undefined });
+      }
+    }
+
+    return checks;
+  }
+
+  private async checkKnownHosts(): Promise<DoctorCheck[]> {
+    const knownHostsPath = this.hostKeyManager.getKnownHostsPath();
+    if (!await fs.pathExists(knownHostsPath)) {
+      return [{
+        status: 'warn',
+        title: `${knownHostsPath} does not exist`,
+        detail: 'SSH connections will fail host key verification',
+        hint: 'Run "gitsm hosts list" to create it with the published provider keys',
+        remedy: () => this.hostKeyManager.ensureKnownHosts()
+      }];
+    }
+
+    const entries = await this.hostKeyManager.list();
+    const hosts = new Set(entries.map(entry => entry.host));
+    return [{ status: 'pass', title: 'gitsm known_hosts', detail: `${hosts.size} trusted host(s)` }];
+  }
+
+  private async checkRepositories(): Promise<DoctorCheck[]> {
+    const config = await this.configManager.loadConfig();
+    const checks: DoctorCheck[] = [];
+
+    for (const repo of Object.values(config.repositories)) {
+      const name = repo.repoPath;
+
+      if (!await fs.pathExists(repo.repoPath) || !this.gitWrapper.isGitRepository(repo.repoPath)) {
+        checks.push({
+          status: 'fail',
+          title: `${name}: repository not found`,
+          detail: 'it was moved or deleted',
+          hint: 'Run "gitsm repos relocate <old> <new>" if it moved, or "gitsm repos prune" if it is gone'
+        });
+        continue;
+      }
+
+      const currentCommand = this.gitWrapper.getConfig(repo.repoPath, 'core.sshCommand');
+
+      if (!repo.sshKeyPath) {
+        // HTTPS repositories must not carry a stale SSH command
+        checks.push(currentCommand
+          ? {
+            status: 'warn',
+            title: `${name}: core.sshCommand set on an HTTPS repository`,
+            hint: `git -C "${repo.repoPath}" config --unset core.sshCommand`,
+            remedy: async () => this.gitWrapper.unsetConfig(repo.repoPath, 'core.sshCommand')
+          }
+          : { status: 'pass', title: name, detail: 'HTTPS' });
+        continue;
+      }
+
+      if (!await fs.pathExists(repo.sshKeyPath)) {
+        checks.push({
+          status: 'fail',
+          title: `${name}: SSH key missing`,
+          detail: PathUtils.toRelativeSSHPath(repo.sshKeyPath),
+          hint: `Run "gitsm fix ${repo.repoPath}" to choose another key`
+        });
+        continue;
+      }
+
+      const expectedCommand = this.gitWrapper.buildSSHCommand(PathUtils.normalizeForSSH(repo.sshKeyPath));
+      if (currentCommand !== expectedCommand) {
+        checks.push({
+          status: 'fail',
+          title: `${name}: core.sshCommand does not match the configured key`,
+          detail: currentCommand ? `found "${currentCommand}"` : 'not set',
+          hint: `Run "gitsm fix ${repo.repoPath}"`,
+          remedy: async () => this.gitWrapper.setConfig(repo.repoPath, 'core.sshCommand', expectedCommand)
+        });
+        continue;
+      }
+
+      checks.push({ status: 'pass', title: name, detail: PathUtils.toRelativeSSHPath(repo.sshKeyPath) });
+    }
+
+    return checks;
+  }
+
+  /**
+   * Authenticate once per host and key pair used by the configured repositories
+   */
+  private async checkConnectivity(): Promise<DoctorCheck[]> {
+    const config = await this.configManager.loadConfig();
+    const targets = new Map<string, { remote: RemoteUrl; keyPath: string }>();
+
+    for (const repo of Object.values(config.repositories)) {
+      const remote = RemoteUrl.tryParse(repo.remoteUrl);
+      if (!remote?.isSSH || !repo.sshKeyPath || !await fs.pathExists(repo.sshKeyPath)) {
+        continue;
+      }
+      targets.set(`${remote.host}:${remote.port || 22}|${repo.sshKeyPath}`, { remote, keyPath: repo.sshKeyPath });
+    }
+
+    return Promise.all([...targets.values()].map(async ({ remote, keyPath }): Promise<DoctorCheck> => {
+      const hostName = this.hostKeyManager.hostEntryName(remote.host, remote.port);
+      const keyName = PathUtils.toRelativeSSHPath(keyPath);
+
+      if (!await this.hostKeyManager.isKnown(remote.host, remote.port)) {
+        return {
+          status: 'warn',
+          title: `${hostName} is not trusted`,
+          hint: `Run "gitsm hosts add ${hostName}"`
+        };
+      }
+
+      const { authenticated, account } = await this.sshManager.authenticate(keyPath, remote.host, 15000, remote.port, remote.user || 'git');
+      return authenticated
+        ? { status: 'pass', title: `${hostName} with ${keyName}`, detail: account ? `authenticated as ${account}` : 'authenticated' }
+        : {
+          status: 'fail',
+          title: `${hostName} with ${keyName}`,
+          detail: 'authentication failed',
+          hint: 'Check that the public key is added to your account, or run "gitsm whoami"'
+        };
+    }));
+  }
+}
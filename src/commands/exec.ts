@@ -0,0 +1,144 @@
+import * as fs from 'fs-extra';
+import chalk from 'chalk';
+import { SSHManager } from '../core/ssh-manager';
+import { GitWrapper } from '../core/git-wrapper';
+import { RepoConfigManager } from '../core/repo-config';
+import { HostKeyManager } from '../core/host-key-manager';
+import { PathUtils } from '../utils/path-utils';
+import { ProcessRunner, ProcessError } from '../utils/process-runner';
+import { RemoteUrl } from '../utils/remote-url';
+
+// Options that take the next argument as their value, so it is not mistaken for a repository
+const GLOBAL_VALUE_OPTIONS = ['-C', '-c', '--git-dir', '--work-tree', '--namespace', '--exec-path'];
+const VALUE_OPTIONS = [
+  '-b', '--branch', '-o', '--origin', '-u', '--upload-pack', '--receive-pack', '--exec', '--depth', '--deepen',
+  '--reference', '--reference-if-able', '--separate-git-dir', '-c', '--config', '--template', '--shallow-since',
+  '--shallow-exclude', '-j', '--jobs', '--filter', '--server-option', '--push-option', '--bundle-uri', '--refmap',
+  '--negotiation-tip', '--recurse-submodules-default', '--repo', '--sort', '-t', '--track', '-m', '--master'
+];
+
+export class ExecCommand {
+  private sshManager: SSHManager;
+  private gitWrapper: GitWrapper;
+  private configManager: RepoConfigManager;
+  private hostKeyManager: HostKeyManager;
+
+  constructor() {
+    this.sshManager = new SSHManager();
+    this.gitWrapper = new GitWrapper();
+    this.configManager = new RepoConfigManager();
+    this.hostKeyManager = new HostKeyManager();
+  }
+
+  /**
+   * Run git once with GIT_SSH_COMMAND set to a key, without touching any config.
+   * git's streams are inherited and its exit code becomes ours.
+   */
+  async execute(gitArgs: string[], options: { key?: string } = {}): Promise<void> {
+    let keyPath: string;
+    try {
+      keyPath = await this.resolveKey(options.key);
+
+      // Remote URLs on the command line need a trusted host key just like clones do
+      for (const arg of this.repositoryArgs(gitArgs).filter(candidate => RemoteUrl.isSSH(candidate))) {
+        if (!await this.hostKeyManager.ensureTrustedForUrl(arg)) {
+          console.error(chalk.red(`❌ Host key of ${RemoteUrl.parse(arg).host} is not trusted`));
+          process.exit(1);
+        }
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+
+    try {
+      await ProcessRunner.run('git', gitArgs, {
+        stdio: 'inherit',
+        env: { GIT_SSH_COMMAND: this.gitWrapper.buildSSHCommand(PathUtils.normalizeForSSH(keyPath)) }
+      });
+    } catch (error) {
+      if (error instanceof ProcessError && error.exitCode > 0) {
+        process.exit(error.exitCode);
+      }
+      console.error(chalk.red(`❌ Could not run git: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Arguments in repository position: the repository of clone, fetch, pull, push and ls-remote,
+   * and the URL of remote add / set-url. Revisions such as HEAD:src/index.ts also look like
+   * scp-style URLs, so nothing else is checked.
+   */
+  private repositoryArgs(gitArgs: string[]): string[] {
+    const positionals = (args: string[], valueOptions: string[]): string[] => {
+      const found: string[] = [];
+      for (let index = 0; index < args.length; index++) {
+        const arg = args[index];
+        if (arg === '--') {
+          found.push(...args.slice(index + 1));
+          break;
+        }
+        if (arg.startsWith('-')) {
+          if (valueOptions.includes(arg)) {
+            index++;
+          }
+          continue;
+        }
+        found.push(arg);
+      }
+      return found;
+    };
+
+    // Global options come before the subcommand
+    let start = 0;
+    while (start < gitArgs.length && gitArgs[start].startsWith('-')) {
+      start += GLOBAL_VALUE_OPTIONS.includes(gitArgs[start]) ? 2 : 1;
+    }
+    const [command, ...rest] = gitArgs.slice(start);
+    const args = positionals(rest, VALUE_OPTIONS);
+
+    switch (command) {
+      case 'clone':
+      case 'fetch':
+      case 'pull':
+      case 'push':
+      case 'ls-remote':
+        return args.slice(0, 1);
+      case 'remote':
+        if (args[0] === 'add') {
+          return args.slice(2, 3);             // remote add <name> <url>
+        }
+        return args[0] === 'set-url' ? args.slice(2, 4) : [];   // remote set-url <name> <newurl> [<oldurl>]
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * --key (a key name, ~/.ssh path or any key file), otherwise the key configured for the current repository
+   */
+  private async resolveKey(keyOption?: string): Promise<string> {
+    if (keyOption) {
+      const key = this.sshManager.findKey(await this.sshManager.discoverSSHKeys(), keyOption);
+      if (key) {
+        return key.path;
+      }
+      const keyPath = PathUtils.toAbsolute(PathUtils.fromRelativeSSHPath(keyOption));
+      if (await fs.pathExists(keyPath)) {
+        return keyPath;
+      }
+      throw new Error(`SSH key not found: ${keyOption}`);
+    }
+
+    const repoRoot = this.gitWrapper.getTopLevel(process.cwd());
+    if (!repoRoot) {
+      throw new Error('Not inside a repository managed by gitsm. Pass the key with --key <name|path>.');
+    }
+    const repoConfig = await this.configManager.findRepo(repoRoot);
+    if (!repoConfig?.sshKeyPath) {
+      throw new Error(`No SSH key configured for ${repoRoot}. Pass the key with --key <name|path>.`);
+    }
+    return repoConfig.sshKeyPath;
+  }
+}
@@ -4,75 +4,111 @@ import chalk from 'chalk';
 import { SSHManager } from '../core/ssh-manager';
 import { RepoConfigManager } from '../core/repo-config';
 import { GitWrapper } from '../core/git-wrapper';
-import { PromptUtils } from '../utils/prompt-utils';
+import { HostKeyManager } from '../core/host-key-manager';
+import { PromptUtils, exitIfPromptRequired } from '../utils/prompt-utils';
+import { RemoteUrl } from '../utils/remote-url';
 
 export class FixCommand {
   private sshManager: SSHManager;
   private configManager: RepoConfigManager;
   private gitWrapper: GitWrapper;
+  private hostKeyManager: HostKeyManager;
   private promptUtils: PromptUtils;
 
   constructor() {
     this.sshManager = new SSHManager();
     this.configManager = new RepoConfigManager();
     this.gitWrapper = new GitWrapper();
+    this.hostKeyManager = new HostKeyManager();
     this.promptUtils = new PromptUtils();
   }
 
-  async execute(repoPath: string): Promise<void> {
+  async execute(repoPath: string, options: { identity?: string; key?: string } = {}): Promise<void> {
     try {
-      const fs = require('fs');
-      const fsExtra = require('fs-extra');
+      if (options.identity && options.key) {
+        console.error(chalk.red('❌ --identity already sets the SSH key; use either --identity or --key'));
+        process.exit(1);
+      }
+      const identity = options.identity
+        ? await this.configManager.getIdentity(options.identity)
+        : undefined;
       if (!this.gitWrapper.isGitRepository(repoPath)) {
         console.error(chalk.red('❌ Not a Git repository'));
-        return;
+        process.exit(1);
       }
 
       const currentUrl = await this.gitWrapper.getRemoteUrl(repoPath);
       if (!currentUrl) {
         console.error(chalk.red('❌ No remote URL found'));
-        return;
+        process.exit(1);
       }
 
       console.log(chalk.blue(`Current remote: ${currentUrl}`));
 
-      if (currentUrl.startsWith('git@')) {
+      if (RemoteUrl.isSSH(currentUrl)) {
         // SSH repository - check SSH key config
-        const config = await this.configManager.loadConfig();
-        const repoConfig = config.repositories[repoPath];
-        let sshKeyPath = repoConfig?.sshKeyPath;
-        let keyExists = sshKeyPath && await fsExtra.pathExists(sshKeyPath);
+        const repoConfig = await this.configManager.findRepo(repoPath);
+        let sshKeyPath = identity ? identity.sshKeyPath : repoConfig?.sshKeyPath;
+        let identityName = identity ? identity.name : repoConfig?.identity;
+        let keyExists = sshKeyPath && await fs.pathExists(sshKeyPath);
+
+        if (options.key) {
+          const key = this.sshManager.findKey(await this.sshManager.discoverSSHKeys(), options.key);
+          if (!key) {
+            console.error(chalk.red(`❌ SSH key not found: ${options.key}`));
+            process.exit(1);
+          }
+          // The recorded identity no longer describes the key in use
+          if (key.path !== sshKeyPath) {
+            identityName = undefined;
+          }
+          sshKeyPath = key.path;
+          keyExists = true;
+        }
 
-        console.log(chalk.yellow(`[DEBUG] Previous SSH key path in config: ${sshKeyPath}`));
+        if (identity && !keyExists) {
+          console.log(chalk.red(`SSH key of identity '${identity.name}' does not exist: ${identity.sshKeyPath}`));
+          process.exit(1);
+        }
 
-        if (!keyExists) {
+        if (!keyExists || !sshKeyPath) {
           console.log(chalk.yellow('⚠️  Configured SSH key does not exist or is not set.'));
           const sshKeys = await this.sshManager.discoverSSHKeys();
           if (sshKeys.length === 0) {
             console.log(chalk.red('No SSH keys found in ~/.ssh. Aborting.'));
-            return;
+            process.exit(1);
           }
-          const selectedKey = await this.promptUtils.selectSSHKey(sshKeys);
-          sshKeyPath = selectedKey.path;
-          console.log(chalk.yellow(`[DEBUG] Setting new SSH key path: ${sshKeyPath}`));
+          const selectedIdentity = await this.promptUtils.selectIdentity(await this.configManager.getIdentities());
+          if (selectedIdentity) {
+            this.gitWrapper.applyIdentity(repoPath, selectedIdentity);
+            sshKeyPath = selectedIdentity.sshKeyPath;
+            identityName = selectedIdentity.name;
+          } else {
+            const selectedKey = await this.promptUtils.selectSSHKey(sshKeys);
+            sshKeyPath = selectedKey.path;
+            identityName = undefined;
+          }
+        }
+
+        if (identity) {
+          this.gitWrapper.applyIdentity(repoPath, identity);
         }
-        // Always rewrite config with normalized, quoted path using direct text edit
-        const path = require('path');
+        if (!await this.hostKeyManager.ensureTrustedForUrl(currentUrl)) {
+          console.log(chalk.yellow('⚠️  Host key not trusted; git will refuse to connect until it is added with "gitsm hosts add".'));
+        }
+
+        // Always rewrite config with normalized, quoted path
         const normalizedPathForConfig = sshKeyPath.replace(/\\/g, '/');
-        const sshConfigValue = `ssh -i "${normalizedPathForConfig}" -F /dev/null -o IdentitiesOnly=yes -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null`;
-        const { execFileSync } = require('child_process');
-        execFileSync('git', [
-          'config',
-          'core.sshCommand',
-          sshConfigValue
-        ], { cwd: repoPath });
-        await this.configManager.setRepoConfig(repoPath, sshKeyPath, currentUrl);
+        this.gitWrapper.setConfig(repoPath, 'core.sshCommand', this.gitWrapper.buildSSHCommand(normalizedPathForConfig));
+        await this.configManager.setRepoConfig(repoConfig?.repoPath || repoPath, sshKeyPath, currentUrl, identityName);
         console.log(chalk.green('✅ SSH key configuration updated.'));
       } else {
         console.log(chalk.green('✅ Repository is already configured for HTTPS. No fix needed.'));
       }
     } catch (error) {
+      exitIfPromptRequired(error);
       console.error(chalk.red(`❌ Error fixing repository: ${error}`));
+      process.exit(1);
     }
   }
 }
@@ -0,0 +1,309 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import { ChangeJournal } from '../core/change-journal';
+import { RepoConfigManager } from '../core/repo-config';
+import { GitWrapper } from '../core/git-wrapper';
+import { HostKeyManager } from '../core/host-key-manager';
+import { JournalEntry, JournalOperation } from '../types';
+import { OutputFormatter } from '../utils/output-format';
+import { PathUtils } from '../utils/path-utils';
+import { PromptUtils, exitIfPromptRequired } from '../utils/prompt-utils';
+
+interface HistoryOptions {
+  json?: boolean;
+  format?: string;
+  limit?: string;
+}
+
+export class HistoryCommand {
+  private configManager: RepoConfigManager;
+  private gitWrapper: GitWrapper;
+  private hostKeyManager: HostKeyManager;
+  private promptUtils: PromptUtils;
+
+  constructor() {
+    this.configManager = new RepoConfigManager();
+    this.gitWrapper = new GitWrapper();
+    this.hostKeyManager = new HostKeyManager();
+    this.promptUtils = new PromptUtils();
+  }
+
+  /**
+   * Show the journal, newest operation first, optionally only the changes to one repository
+   */
+  async show(repoPath?: string, options: HistoryOptions = {}): Promise<void> {
+    try {
+      const format = OutputFormatter.resolve(options);
+      const limit = options.limit ? parseInt(options.limit, 10) : 20;
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`Invalid limit: ${options.limit}`);
+      }
+
+      let operations = await ChangeJournal.readOperations();
+      if (repoPath) {
+        const { repoPath: canonicalPath } = this.configManager.resolveRepo(repoPath);
+        operations = operations
+          .map(operation => ({ ...operation, changes: operation.changes.filter(change => change.repoPath === canonicalPath) }))
+          .filter(operation => operation.changes.length > 0);
+      }
+      operations = operations.reverse().slice(0, limit);
+
+      if (format === 'json') {
+        OutputFormatter.printJson(operations);
+        return;
+      }
+      if (format === 'tsv') {
+        OutputFormatter.printTsv(
+          ['operation', 'timestamp', 'command', 'undoes', 'undoneBy', 'repoPath', 'kind', 'setting', 'oldValue', 'newValue'],
+          operations.flatMap(operation => operation.changes.map(change => [
+            operation.id,
+            change.timestamp,
+            change.command,
+            operation.undoes,
+            operation.undoneBy,
+            change.repoPath,
+            change.kind,
+            change.setting,
+            this.tsvValue(change.oldValue),
+            this.tsvValue(change.newValue)
+          ]))
+        );
+        return;
+      }
+
+      console.log(chalk.blue(`🕘 Change History${repoPath ? ` of ${this.configManager.resolveRepo(repoPath).repoPath}` : ''}:`));
+      console.log(chalk.gray('─'.repeat(50)));
+      if (operations.length === 0) {
+        console.log(chalk.yellow('No changes recorded.'));
+        return;
+      }
+
+      for (const operation of operations) {
+        const status = operation.undoneBy
+          ? chalk.yellow(`  [undone by ${operation.undoneBy}]`)
+          : operation.undoes ? chalk.gray(`  [undoes ${operation.undoes}]`) : '';
+        console.log(`${chalk.green(operation.id)}  ${chalk.gray(operation.timestamp.toLocaleString())}  gitsm ${operation.command}${status}`);
+        for (const [scope, changes] of this.byScope(operation.changes)) {
+          console.log(chalk.gray(`   ${scope}`));
+          changes.forEach(change => console.log(`     ${this.describe(change, change.oldValue, change.newValue)}`));
+        }
+        console.log();
+      }
+      console.log(chalk.gray('Revert an operation with "gitsm undo <id>".'));
+    } catch (error) {
+      console.error(chalk.red(`❌ Error reading history: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Put back every value an operation changed. Changes made since then are shown before anything happens.
+   */
+  async undo(id: string | undefined, options: { last?: boolean } = {}): Promise<void> {
+    try {
+      const operation = this.findOperation(await ChangeJournal.readOperations(), id, options.last);
+      if (operation.undoneBy) {
+        console.log(chalk.yellow(`${operation.id} was already undone by ${operation.undoneBy}. Undo ${operation.undoneBy} to apply it again.`));
+        process.exit(1);
+      }
+
+      console.log(chalk.blue(`↩️  Undo ${operation.id}: gitsm ${operation.command} (${operation.timestamp.toLocaleString()})`));
+
+      const steps: { change: JournalEntry; target: unknown; current: unknown; conflict: boolean }[] = [];
+      for (const change of this.netChanges(operation.changes).reverse()) {
+        let current: unknown;
+        try {
+          current = await this.currentValue(change);
+        } catch (error) {
+          console.log(chalk.yellow(`   ⚠️  Skipping ${change.setting}: ${error instanceof Error ? error.message : String(error)}`));
+          continue;
+        }
+        if (this.same(current, change.oldValue)) {
+          continue;   // Already back to the earlier value
+        }
+        steps.push({ change, target: change.oldValue, current, conflict: !this.same(current, change.newValue) });
+      }
+
+      if (steps.length === 0) {
+        console.log(chalk.green('✓ Nothing to undo; every setting already has its earlier value.'));
+        return;
+      }
+
+      for (const [scope, scoped] of this.byScope(steps.map(step => step.change))) {
+        console.log(chalk.gray(`   ${scope}`));
+        for (const change of scoped) {
+          const step = steps.find(candidate => candidate.change === change)!;
+          console.log(`     ${this.describe(change, step.current, step.target)}`);
+          if (step.conflict) {
+            console.log(chalk.yellow(`       changed since ${operation.id}; the newer value will be overwritten`));
+          }
+        }
+      }
+
+      const conflicts = steps.some(step => step.conflict);
+      if (!await this.promptUtils.confirmAction('Undo these changes?', !conflicts)) {
+        console.log(chalk.yellow('Nothing changed.'));
+        return;
+      }
+
+      ChangeJournal.beginUndo(operation.id);
+      // gitsm config values go first: updateConfig refuses ones that no longer validate, and then nothing else has changed yet
+      const ordered = [...steps.filter(step => step.change.kind === 'gitsm-config'), ...steps.filter(step => step.change.kind !== 'gitsm-config')];
+      for (const step of ordered) {
+        await this.restore(step.change, step.target);
+      }
+      console.log(chalk.green(`✅ Undid ${operation.id} (recorded as ${ChangeJournal.getOperationId()})`));
+    } catch (error) {
+      exitIfPromptRequired(error);
+      console.error(chalk.red(`❌ Failed to undo: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  private findOperation(operations: JournalOperation[], id: string | undefined, last?: boolean): JournalOperation {
+    if (last) {
+      // Walk back through the changes; undos themselves are skipped
+      const operation = operations.filter(candidate => !candidate.undoes && !candidate.undoneBy).pop();
+      if (!operation) {
+        throw new Error('Nothing left to undo');
+      }
+      return operation;
+    }
+    if (!id) {
+      throw new Error('Pass an operation id from "gitsm history", or --last');
+    }
+
+    const matches = operations.filter(operation => operation.id.startsWith(id));
+    if (matches.length === 0) {
+      throw new Error(`No operation ${id} in the history`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`${id} matches several operations (${matches.map(operation => operation.id).join(', ')})`);
+    }
+    return matches[0];
+  }
+
+  /**
+   * One change per setting: the value before the operation's first change and after its last
+   */
+  private netChanges(changes: JournalEntry[]): JournalEntry[] {
+    const net = new Map<string, JournalEntry>();
+    for (const change of changes) {
+      const key = JSON.stringify([change.kind, change.repoPath, change.setting]);
+      const first = net.get(key);
+      net.set(key, first ? { ...first, newValue: change.newValue } : change);
+    }
+    return [...net.values()];
+  }
+
+  private async currentValue(change: JournalEntry): Promise<unknown> {
+    if (change.repoPath && (change.kind === 'git-config' || change.kind === 'remote-url') && !await fs.pathExists(change.repoPath)) {
+      throw new Error(`repository ${change.repoPath} no longer exists`);
+    }
+
+    switch (change.kind) {
+      case 'git-config':
+        return this.gitWrapper.getConfig(change.repoPath!, change.setting);
+      case 'remote-url':
+        return this.gitWrapper.getRemoteUrl(change.repoPath!);
+      case 'file':
+        return await fs.pathExists(change.setting) ? fs.readFile(change.setting, 'utf8') : null;
+      case 'gitsm-config':
+        return this.configManager.getSetting(change.setting);
+      case 'known-host': {
+        const lines = await this.hostKeyManager.getHostLines(change.setting);
+        return lines.length > 0 ? lines : null;
+      }
+    }
+  }
+
+  private async restore(change: JournalEntry, value: unknown): Promise<void> {
+    switch (change.kind) {
+      case 'git-config':
+        this.gitWrapper.writeConfig(change.repoPath!, change.setting, value as string | null);
+        break;
+      case 'remote-url':
+        if (typeof value === 'string') {
+          await this.gitWrapper.writeRemoteUrl(change.repoPath!, value);
+        }
+        break;
+      case 'file':
+        await this.gitWrapper.writeGeneratedFile(change.repoPath || path.dirname(change.setting), change.setting, value as string | null);
+        break;
+      case 'gitsm-config':
+        await this.configManager.restoreSetting(change.setting, value);
+        break;
+      case 'known-host':
+        await this.hostKeyManager.setHostLines(change.setting, (value as string[] | null) || []);
+        break;
+    }
+  }
+
+  private describe(change: JournalEntry, from: unknown, to: unknown): string {
+    switch (change.kind) {
+      case 'git-config':
+        return `git config ${change.setting}: ${this.formatValue(from)} → ${this.formatValue(to)}`;
+      case 'remote-url':
+        return `remote ${change.setting}: ${this.formatValue(from)} → ${this.formatValue(to)}`;
+      case 'file': {
+        const name = change.repoPath ? path.relative(change.repoPath, change.setting) : PathUtils.toRelativeSSHPath(change.setting);
+        return from === null ? `create ${name}` : to === null ? `delete ${name}` : `rewrite ${name}`;
+      }
+      case 'gitsm-config':
+        if (from === null) {
+          return `add ${change.setting} to the gitsm config`;
+        }
+        if (to === null) {
+          return `remove ${change.setting} from the gitsm config`;
+        }
+        return `gitsm config ${change.setting}: ${this.describeFields(from, to)}`;
+      case 'known-host':
+        if (from === null) {
+          return `trust ${change.setting} (${(to as string[]).length} key${(to as string[]).length === 1 ? '' : 's'})`;
+        }
+        return to === null ? `forget host ${change.setting}` : `change the trusted keys of ${change.setting}`;
+    }
+  }
+
+  /**
+   * Objects list the fields that differ, e.g. "sshKeyPath ~/.ssh/id_old → ~/.ssh/id_new"
+   */
+  private describeFields(from: unknown, to: unknown): string {
+    if (!from || !to || typeof from !== 'object' || typeof to !== 'object' || Array.isArray(from) || Array.isArray(to)) {
+      return `${this.formatValue(from)} → ${this.formatValue(to)}`;
+    }
+    const before = from as Record<string, unknown>;
+    const after = to as Record<string, unknown>;
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+      .filter(field => field !== 'createdAt' && !this.same(before[field], after[field]));
+    return fields.length === 0
+      ? 'recreated'
+      : fields.map(field => `${field} ${this.formatValue(before[field] ?? null)} → ${this.formatValue(after[field] ?? null)}`).join(', ');
+  }
+
+  private formatValue(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '(not set)';
+    }
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return JSON.stringify(text.length > 60 ? `${text.slice(0, 57)}...` : text);
+  }
+
+  private tsvValue(value: unknown): string | null {
+    return value === null || typeof value === 'string' ? value as string | null : JSON.stringify(value);
+  }
+
+  private byScope(changes: JournalEntry[]): Map<string, JournalEntry[]> {
+    const scopes = new Map<string, JournalEntry[]>();
+    for (const change of changes) {
+      const scope = change.repoPath || (change.kind === 'known-host' ? 'trusted hosts' : 'gitsm config');
+      scopes.set(scope, [...(scopes.get(scope) || []), change]);
+    }
+    return scopes;
+  }
+
+  private same(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  }
+}
@@ -0,0 +1,139 @@
+import chalk from 'chalk';
+import { HostKeyManager } from '../core/host-key-manager';
+import { PathUtils } from '../utils/path-utils';
+
+export class HostsCommand {
+  private hostKeyManager: HostKeyManager;
+
+  constructor() {
+    this.hostKeyManager = new HostKeyManager();
+  }
+
+  async list(): Promise<void> {
+    try {
+      console.log(chalk.blue('🔒 Trusted SSH Hosts:'));
+      console.log(chalk.gray(`${PathUtils.toRelativeSSHPath(this.hostKeyManager.getKnownHostsPath())}`));
+      console.log(chalk.gray('─'.repeat(50)));
+
+      const entries = await this.hostKeyManager.list();
+      if (entries.length === 0) {
+        console.log(chalk.yellow('No trusted hosts. Add one with "gitsm hosts add <host>"'));
+        return;
+      }
+
+      const hosts = [...new Set(entries.map(entry => entry.host))];
+      for (const [index, host] of hosts.entries()) {
+        console.log(chalk.green(`${index + 1}. ${host}`));
+        for (const entry of entries.filter(candidate => candidate.host === host)) {
+          const fingerprint = await this.hostKeyManager.fingerprint(entry);
+          const source = this.hostKeyManager.isPinned(entry) ? ' (published)' : '';
+          console.log(chalk.gray(`   ${entry.keyType.padEnd(20)} ${fingerprint}${source}`));
+        }
+        console.log();
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ Error listing hosts: ${error}`));
+    }
+  }
+
+  async add(hostArg: string): Promise<void> {
+    try {
+      const { host, port } = this.parseHost(hostArg);
+      if (await this.hostKeyManager.isKnown(host, port)) {
+        console.log(chalk.yellow(`${this.hostKeyManager.hostEntryName(host, port)} is already trusted. Use "gitsm hosts verify" to compare its keys.`));
+        return;
+      }
+
+      if (!await this.hostKeyManager.ensureTrusted(host, port)) {
+        console.log(chalk.yellow('Host not added.'));
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to add host: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  async remove(hostArg: string): Promise<void> {
+    try {
+      const { host, port } = this.parseHost(hostArg);
+      const removed = await this.hostKeyManager.remove(host, port);
+      if (removed === 0) {
+        console.error(chalk.red(`❌ ${this.hostKeyManager.hostEntryName(host, port)} is not in the known hosts file`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`✅ Removed ${removed} key(s) for ${this.hostKeyManager.hostEntryName(host, port)}`));
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to remove host: ${error}`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Compare the keys hosts present right now with the trusted entries
+   */
+  async verify(hostArg?: string): Promise<void> {
+    try {
+      const entries = await this.hostKeyManager.list();
+      const targets = hostArg
+        ? [this.parseHost(hostArg)]
+        : [...new Set(entries.map(entry => entry.host))].map(name => this.parseHost(name));
+
+      let problems = 0;
+      for (const { host, port } of targets) {
+        const name = this.hostKeyManager.hostEntryName(host, port);
+        const trusted = entries.filter(entry => entry.host === name);
+        if (trusted.length === 0) {
+          console.log(chalk.yellow(`⚠️  ${name}: not trusted yet`));
+          problems++;
+          continue;
+        }
+
+        let live;
+        try {
+          live = await this.hostKeyManager.scan(host, port);
+        } catch (error) {
+          console.log(chalk.yellow(`⚠️  ${name}: could not reach host (${error instanceof Error ? error.message.split('\n')[0] : error})`));
+          problems++;
+          continue;
+        }
+
+        // A presented key of a type we already trust must match exactly; new key types are only reported
+        const mismatched = live.filter(entry =>
+          trusted.some(known => known.keyType === entry.keyType) &&
+          !trusted.some(known => known.keyType === entry.keyType && known.key === entry.key)
+        );
+        const matched = live.filter(entry => trusted.some(known => known.key === entry.key));
+
+        if (mismatched.length > 0) {
+          console.log(chalk.red(`✕ ${name}: HOST KEY CHANGED`));
+          mismatched.forEach(entry => console.log(chalk.red(`   ${entry.keyType.padEnd(20)} ${entry.fingerprint}`)));
+          console.log(chalk.gray('   This could be a man-in-the-middle attack, or the provider rotated its keys.'));
+          console.log(chalk.gray(`   Check the published fingerprints, then run "gitsm hosts remove ${name}" and "gitsm hosts add ${name}".`));
+          problems++;
+        } else if (matched.length === 0) {
+          console.log(chalk.yellow(`⚠️  ${name}: none of the presented keys are trusted`));
+          problems++;
+        } else {
+          console.log(chalk.green(`✓ ${name}: ${matched.length} key(s) match`));
+        }
+      }
+
+      if (problems > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ Error verifying hosts: ${error}`));
+      process.exit(1);
+    }
+  }
+
+  private parseHost(hostArg: string): { host: string; port?: number } {
+    // Accepts host, host:port and the known_hosts form [host]:port
+    const match = hostArg.match(/^\[([^\]]+)\]:(\d+)$/) || hostArg.match(/^([^:]+):(\d+)$/);
+    if (match) {
+      return { host: match[1], port: parseInt(match[2], 10) };
+    }
+    return { host: hostArg };
+  }
+}
@@ -0,0 +1,103 @@
+import * as fs from 'fs-extra';
+import chalk from 'chalk';
+import { SSHManager } from '../core/ssh-manager';
+import { RepoConfigManager } from '../core/repo-config';
+import { PromptUtils } from '../utils/prompt-utils';
+import { PathUtils } from '../utils/path-utils';
+
+interface IdentityAddOptions {
+  key?: string;
+  userName?: string;
+  email?: string;
+  signingKey?: string;
+}
+
+export class IdentityCommand {
+  private sshManager: SSHManager;
+  private configManager: RepoConfigManager;
+  private promptUtils: PromptUtils;
+
+  constructor() {
+    this.sshManager = new SSHManager();
+    this.configManager = new RepoConfigManager();
+    this.promptUtils = new PromptUtils();
+  }
+
+  async add(name: string, options: IdentityAddOptions = {}): Promise<void> {
+    try {
+      const existing = await this.configManager.getIdentities();
+      if (existing.some(identity => identity.name === name)) {
+        const overwrite = await this.promptUtils.confirmAction(`Identity '${name}' already exists. Overwrite it?`);
+        if (!overwrite) {
+          console.log(chalk.yellow('Cancelled.'));
+          return;
+        }
+      }
+
+      let sshKeyPath = options.key
+        ? PathUtils.toAbsolute(PathUtils.fromRelativeSSHPath(options.key))
+        : undefined;
+      if (sshKeyPath && !await fs.pathExists(sshKeyPath)) {
+        console.error(chalk.red(`❌ SSH key does not exist: ${sshKeyPath}`));
+        process.exit(1);
+      }
+
+      const keys = sshKeyPath ? [] : await this.sshManager.discoverSSHKeys();
+      if (!sshKeyPath && keys.length === 0) {
+        console.error(chalk.red('❌ No SSH keys found. Create one with "gitsm key generate" first.'));
+        process.exit(1);
+      }
+
+      const details = await this.promptUtils.getIdentityDetails(keys, {
+        sshKeyPath,
+        userName: options.userName,
+        userEmail: options.email,
+        signingKey: options.signingKey
+      });
+
+      await this.configManager.setIdentity({ name, ...details });
+      console.log(chalk.green(`✅ Identity '${name}' saved`));
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to save identity: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  async list(): Promise<void> {
+    try {
+      console.log(chalk.blue('👤 Configured Identities:'));
+      console.log(chalk.gray('─'.repeat(50)));
+
+      const identities = await this.configManager.getIdentities();
+      if (identities.length === 0) {
+        console.log(chalk.yellow('No identities configured. Add one with "gitsm identity add <name>"'));
+        return;
+      }
+
+      identities.forEach((identity, index) => {
+        console.log(chalk.green(`${index + 1}. ${identity.name}`));
+        console.log(chalk.gray(`   Author: ${identity.userName} <${identity.userEmail}>`));
+        console.log(chalk.gray(`   SSH Key: ${PathUtils.toRelativeSSHPath(identity.sshKeyPath)}`));
+        if (identity.signingKey) {
+          console.log(chalk.gray(`   Signing Key: ${identity.signingKey}`));
+        }
+        console.log();
+      });
+    } catch (error) {
+      console.error(chalk.red(`❌ Error listing identities: ${error}`));
+    }
+  }
+
+  async remove(name: string): Promise<void> {
+    try {
+      if (!await this.configManager.removeIdentity(name)) {
+        console.error(chalk.red(`❌ Identity '${name}' not found`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`✅ Identity '${name}' removed`));
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to remove identity: ${error}`));
+      process.exit(1);
+    }
+  }
+}
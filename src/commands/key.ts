@@ -0,0 +1,384 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import chalk from 'chalk';
+import { SSHManager } from '../core/ssh-manager';
+import { GitWrapper } from '../core/git-wrapper';
+import { RepoConfigManager } from '../core/repo-config';
+import { HostKeyManager } from '../core/host-key-manager';
+import { KeyPolicyManager } from '../core/key-policy';
+import { RuleManager } from '../core/rule-manager';
+import { SSHAgent } from '../core/ssh-agent';
+import { PromptUtils, exitIfPromptRequired } from '../utils/prompt-utils';
+import { PathUtils } from '../utils/path-utils';
+import { RemoteUrl } from '../utils/remote-url';
+import { OutputFormatter } from '../utils/output-format';
+import { KeyGenerationOptions, KeyPolicy, RepoConfig, SSHKey } from '../types';
+
+interface GenerateOptions {
+  type?: string;
+  name?: string;
+  comment?: string;
+  passphrase?: boolean;
+  repo?: string;
+  yes?: boolean;
+}
+
+interface RotateOptions extends GenerateOptions {
+  to?: string;
+  generate?: boolean;
+}
+
+interface AuditOptions {
+  json?: boolean;
+  format?: string;
+}
+
+interface PolicyOptions {
+  minRsaBits?: string;
+  maxAgeDays?: string;
+  requirePassphrase?: boolean;
+  allowDsa?: boolean;
+  enforce?: string;
+}
+
+export class KeyCommand {
+  private sshManager: SSHManager;
+  private gitWrapper: GitWrapper;
+  private configManager: RepoConfigManager;
+  private hostKeyManager: HostKeyManager;
+  private keyPolicyManager: KeyPolicyManager;
+  private ruleManager: RuleManager;
+  private sshAgent: SSHAgent;
+  private promptUtils: PromptUtils;
+
+  constructor() {
+    this.sshManager = new SSHManager();
+    this.gitWrapper = new GitWrapper();
+    this.configManager = new RepoConfigManager();
+    this.hostKeyManager = new HostKeyManager();
+    this.keyPolicyManager = new KeyPolicyManager();
+    this.ruleManager = new RuleManager();
+    this.sshAgent = new SSHAgent();
+    this.promptUtils = new PromptUtils();
+  }
+
+  async generate(options: GenerateOptions = {}): Promise<void> {
+    try {
+      const key = await this.createKey(options);
+
+      const repoPath = path.resolve(options.repo || '.');
+      if (!this.gitWrapper.isGitRepository(repoPath)) {
+        return;
+      }
+      // The key exists now; without a terminal, say how to attach it instead of failing
+      if (!options.yes && !PromptUtils.isInteractive()) {
+        console.log(chalk.gray(`Attach it to ${repoPath} with "gitsm fix ${repoPath} --key ${key.name}", or pass --yes.`));
+        return;
+      }
+
+      const attach = await this.promptUtils.confirmAction(
+        `Use this key for the repository at ${repoPath}?`
+      );
+      if (!attach) {
+        return;
+      }
+
+      const remoteUrl = await this.gitWrapper.getRemoteUrl(repoPath);
+      await this.gitWrapper.configureRepo(repoPath, key.path);
+      await this.configManager.setRepoConfig(repoPath, key.path, remoteUrl || '');
+
+      if (remoteUrl && !RemoteUrl.isSSH(remoteUrl)) {
+        console.log(chalk.yellow('⚠️  The remote uses HTTPS. Run "gitsm convert" to switch it to SSH.'));
+      } else if (remoteUrl) {
+        await this.hostKeyManager.ensureTrustedForUrl(remoteUrl);
+      }
+    } catch (error) {
+      exitIfPromptRequired(error);
+      console.error(chalk.red(`❌ Key generation failed: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Move every repository configured with one key to another. Each repository is switched only
+   * after the new key passed an access test against its remote; the others keep the old key.
+   */
+  async rotate(oldKeyOption: string, options: RotateOptions = {}): Promise<void> {
+    try {
+      if (!options.to && !options.generate) {
+        throw new Error('Choose the replacement key with --to <key> or --generate');
+      }
+
+      const sshKeys = await this.sshManager.discoverSSHKeys();
+      // The old key may already be deleted (e.g. after a compromise), so accept paths that no longer exist
+      const oldKeyPath = this.sshManager.findKey(sshKeys, oldKeyOption)?.path
+        || PathUtils.toAbsolute(PathUtils.fromRelativeSSHPath(oldKeyOption));
+
+      const config = await this.configManager.loadConfig();
+      const repos = Object.values(config.repositories).filter(repo => repo.sshKeyPath === oldKeyPath);
+      if (repos.length === 0) {
+        console.log(chalk.yellow(`No repositories are configured with ${PathUtils.toRelativeSSHPath(oldKeyPath)}`));
+        return;
+      }
+
+      let newKey: SSHKey | undefined;
+      if (options.generate) {
+        newKey = await this.createKey(options);
+        const added = await this.promptUtils.confirmAction('Have you added the public key to your Git provider(s)? Continue with the access tests?', false);
+        if (!added) {
+          console.log(chalk.gray(`Nothing rotated. Run "gitsm key rotate ${oldKeyOption} --to ${newKey.name}" once the key is added.`));
+          return;
+        }
+      } else {
+        newKey = this.sshManager.findKey(sshKeys, options.to!);
+        if (!newKey) {
+          throw new Error(`SSH key not found: ${options.to}`);
+        }
+      }
+      if (newKey.path === oldKeyPath) {
+        throw new Error('The new key is the same as the old key');
+      }
+      if (!await this.keyPolicyManager.enforce(newKey)) {
+        throw new Error(`${newKey.relativePath} is refused by the key policy`);
+      }
+      await this.sshAgent.ensureLoaded(newKey);
+
+      console.log(chalk.blue(`\n🔄 Rotating ${repos.length} repositories from ${PathUtils.toRelativeSSHPath(oldKeyPath)} to ${newKey.relativePath}`));
+
+      const results: { repoPath: string; status: 'rotated' | 'failed' | 'skipped'; detail?: string }[] = [];
+      const testable: { repo: RepoConfig; remoteUrl: string }[] = [];
+      for (const repo of repos) {
+        if (!await fs.pathExists(repo.repoPath)) {
+          results.push({ repoPath: repo.repoPath, status: 'skipped', detail: 'repository no longer exists' });
+          continue;
+        }
+        const remoteUrl = await this.gitWrapper.getRemoteUrl(repo.repoPath) || repo.remoteUrl;
+        if (!remoteUrl || !RemoteUrl.isSSH(remoteUrl)) {
+          results.push({ repoPath: repo.repoPath, status: 'skipped', detail: 'remote is not an SSH URL' });
+          continue;
+        }
+        if (!await this.hostKeyManager.ensureTrustedForUrl(remoteUrl)) {
+          results.push({ repoPath: repo.repoPath, status: 'failed', detail: 'host key not trusted' });
+          continue;
+        }
+        testable.push({ repo, remoteUrl });
+      }
+
+      // Access tests run in parallel; config writes below stay sequential
+      console.log(chalk.blue(`🔐 Testing ${newKey.relativePath} against ${testable.length} remotes...`));
+      const tests = await Promise.all(testable.map(async entry => ({
+        ...entry,
+        result: await this.sshManager.testSSHKey(newKey!.path, entry.remoteUrl)
+      })));
+
+      for (const { repo, remoteUrl, result } of tests) {
+        if (!result.success) {
+          results.push({ repoPath: repo.repoPath, status: 'failed', detail: result.error });
+          continue;
+        }
+        await this.gitWrapper.configureRepo(repo.repoPath, newKey.path);
+        // configureRepo only warns when git config fails
+        if (this.gitWrapper.getConfig(repo.repoPath, 'core.sshCommand') !== this.gitWrapper.buildSSHCommand(PathUtils.normalizeForSSH(newKey.path))) {
+          results.push({ repoPath: repo.repoPath, status: 'failed', detail: 'could not set core.sshCommand' });
+          continue;
+        }
+        await this.configManager.setRepoConfig(repo.repoPath, newKey.path, remoteUrl, repo.identity);
+        await this.configManager.recordTestResult(repo.repoPath, result);
+        results.push({ repoPath: repo.repoPath, status: 'rotated', detail: result.account ? `as ${result.account}` : undefined });
+      }
+
+      console.log(chalk.blue('\n📋 Rotation Report'));
+      console.log(chalk.gray('─'.repeat(50)));
+      results.forEach(({ repoPath, status, detail }) => {
+        const suffix = detail ? chalk.gray(` (${detail.split('\n')[0]})`) : '';
+        if (status === 'rotated') {
+          console.log(chalk.green(`✓ ${repoPath}`) + suffix);
+        } else if (status === 'failed') {
+          console.log(chalk.red(`✕ ${repoPath}`) + suffix);
+        } else {
+          console.log(chalk.gray(`- ${repoPath}`) + suffix);
+        }
+      });
+
+      const rotated = results.filter(result => result.status === 'rotated').length;
+      const failed = results.filter(result => result.status === 'failed').length;
+      console.log(chalk.gray(`\n${rotated} rotated, ${failed} failed (still on the old key), ${results.length - rotated - failed} skipped`));
+
+      await this.rotateReferences(oldKeyPath, newKey, failed === 0);
+
+      if (failed > 0) {
+        process.exit(1);
+      }
+      console.log(chalk.gray(`Once nothing else uses it, remove ${PathUtils.toRelativeSSHPath(oldKeyPath)} from your Git provider(s).`));
+    } catch (error) {
+      exitIfPromptRequired(error);
+      console.error(chalk.red(`❌ Key rotation failed: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Check every key against the key policy. Exits 1 when any key breaks it.
+   */
+  async audit(options: AuditOptions = {}): Promise<void> {
+    try {
+      const format = OutputFormatter.resolve(options);
+      const policy = await this.keyPolicyManager.getPolicy();
+      const reports = await this.keyPolicyManager.audit();
+      const failing = reports.filter(report => report.findings.some(finding => finding.severity === 'error'));
+
+      if (format === 'json') {
+        OutputFormatter.printJson({ policy, keys: reports });
+      } else if (format === 'tsv') {
+        OutputFormatter.printTsv(
+          ['name', 'relativePath', 'type', 'bits', 'ageDays', 'usedBy', 'errors', 'warnings'],
+          reports.map(report => [
+            report.name,
+            report.relativePath,
+            report.type,
+            report.bits,
+            report.ageDays,
+            report.usedBy,
+            report.findings.filter(finding => finding.severity === 'error').map(finding => finding.check),
+            report.findings.filter(finding => finding.severity === 'warning').map(finding => finding.check)
+          ])
+        );
+      } else {
+        console.log(chalk.blue('🔍 SSH Key Audit'));
+        console.log(chalk.gray(`Policy: ${this.keyPolicyManager.describePolicy(policy)}`));
+        console.log(chalk.gray('─'.repeat(50)));
+
+        if (reports.length === 0) {
+          console.log(chalk.yellow('No SSH keys found'));
+        }
+        reports.forEach(report => {
+          const hasErrors = report.findings.some(finding => finding.severity === 'error');
+          const mark = hasErrors ? chalk.red('✕') : report.findings.length > 0 ? chalk.yellow('⚠') : chalk.green('✓');
+          console.log(`${mark} ${report.relativePath} ${chalk.gray(`${report.type}${report.bits ? ` ${report.bits}` : ''}, ${report.ageDays} days old, used by ${report.usedBy.length}`)}`);
+          report.findings.forEach(finding => {
+            console.log(finding.severity === 'error'
+              ? chalk.red(`    ✕ ${finding.message}`)
+              : chalk.yellow(`    ⚠ ${finding.message}`));
+          });
+        });
+
+        console.log(chalk.gray(`\n${reports.length} keys, ${failing.length} breaking the policy`));
+        if (failing.some(report => report.findings.some(finding => finding.check === 'permissions'))) {
+          console.log(chalk.gray('Run "gitsm doctor --fix" to repair key permissions.'));
+        }
+      }
+
+      if (failing.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ Key audit failed: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Offer to point identities and rules that still name the old key at the new one
+   */
+  private async rotateReferences(oldKeyPath: string, newKey: SSHKey, allRotated: boolean): Promise<void> {
+    const identities = (await this.configManager.getIdentities()).filter(identity => identity.sshKeyPath === oldKeyPath);
+    const rules = (await this.ruleManager.getRules()).filter(rule => rule.sshKeyPath === oldKeyPath);
+    if (identities.length === 0 && rules.length === 0) {
+      return;
+    }
+
+    const names = [
+      ...identities.map(identity => `identity '${identity.name}'`),
+      ...rules.map(rule => `rule '${rule.pattern}'`)
+    ];
+    console.log(chalk.yellow(`\n${names.join(', ')} still use the old key.`));
+    // With failures, new clones through these would land on a key that does not work everywhere yet
+    const update = await this.promptUtils.confirmAction(`Point them at ${newKey.relativePath}?`, allRotated);
+    if (!update) {
+      return;
+    }
+
+    for (const identity of identities) {
+      await this.configManager.setIdentity({ ...identity, sshKeyPath: newKey.path });
+    }
+    if (rules.length > 0) {
+      await this.ruleManager.replaceKey(oldKeyPath, newKey.path);
+    }
+    console.log(chalk.green(`✅ Updated ${names.join(', ')}`));
+  }
+
+  /**
+   * Generate a key from the options (prompting for the rest) and print its public key
+   */
+  private async createKey(options: GenerateOptions): Promise<SSHKey> {
+    if (options.type && options.type !== 'ed25519' && options.type !== 'rsa') {
+      throw new Error(`Unsupported key type: ${options.type} (use ed25519 or rsa)`);
+    }
+
+    console.log(chalk.blue('🔑 Generating a new SSH key'));
+
+    const defaults: Partial<KeyGenerationOptions> = {
+      type: options.type as KeyGenerationOptions['type'] | undefined,
+      name: options.name,
+      comment: options.comment
+    };
+    // --no-passphrase skips the passphrase prompt entirely
+    if (options.passphrase === false) {
+      defaults.passphrase = false;
+    }
+
+    const keyOptions = await this.promptUtils.getKeyGenerationOptions(defaults);
+    const key = await this.sshManager.generateKey(keyOptions);
+
+    console.log(chalk.green(`\n✅ SSH key created: ${key.relativePath}`));
+    console.log(chalk.gray(`   Type: ${key.type}`));
+    console.log(chalk.gray(`   Fingerprint: ${key.fingerprint}`));
+
+    const publicKey = (await fs.readFile(key.publicKeyPath, 'utf8')).trim();
+    console.log(chalk.blue('\n📋 Public key (add this to your Git provider):'));
+    console.log(publicKey);
+    console.log(chalk.gray('\nGitHub:    Settings -> SSH and GPG keys -> New SSH key'));
+    console.log(chalk.gray('GitLab:    Preferences -> SSH Keys'));
+    console.log(chalk.gray('Bitbucket: Personal settings -> SSH keys'));
+    return key;
+  }
+
+  /**
+   * Show the key policy, or change the given thresholds
+   */
+  async policy(options: PolicyOptions = {}): Promise<void> {
+    try {
+      const changes: Partial<KeyPolicy> = {};
+      if (options.minRsaBits !== undefined) {
+        changes.minRsaBits = Number(options.minRsaBits);
+      }
+      if (options.maxAgeDays !== undefined) {
+        changes.maxKeyAgeDays = options.maxAgeDays === 'off' ? null : Number(options.maxAgeDays);
+      }
+      if (options.requirePassphrase !== undefined) {
+        changes.requirePassphrase = options.requirePassphrase;
+      }
+      if (options.allowDsa !== undefined) {
+        changes.allowDsa = options.allowDsa;
+      }
+      if (options.enforce !== undefined) {
+        changes.enforce = options.enforce as KeyPolicy['enforce'];
+      }
+
+      const policy = Object.keys(changes).length > 0
+        ? await this.keyPolicyManager.setPolicy(changes)
+        : await this.keyPolicyManager.getPolicy();
+
+      console.log(chalk.blue('🛡️  Key Policy:'));
+      console.log(chalk.gray('─'.repeat(50)));
+      console.log(`Minimum RSA size:    ${policy.minRsaBits} bits`);
+      console.log(`DSA keys:            ${policy.allowDsa ? 'allowed' : 'not allowed'}`);
+      console.log(`Passphrase:          ${policy.requirePassphrase ? 'required' : 'recommended'}`);
+      console.log(`Maximum key age:     ${policy.maxKeyAgeDays ? `${policy.maxKeyAgeDays} days` : 'off'}`);
+      console.log(`clone/convert:       ${policy.enforce === 'refuse' ? 'refuse keys that break the policy' : 'warn about keys that break the policy'}`);
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+}
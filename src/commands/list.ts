@@ -1,6 +1,14 @@
 import chalk from 'chalk';
 import { SSHManager } from '../core/ssh-manager';
 import { RepoConfigManager } from '../core/repo-config';
+import { PathUtils } from '../utils/path-utils';
+import { OutputFormatter } from '../utils/output-format';
+import { KeyReport, RepoReport } from '../types';
+
+interface ListOptions {
+  json?: boolean;
+  format?: string;
+}
 
 export class ListCommand {
   private sshManager: SSHManager;
@@ -11,54 +19,163 @@ export class ListCommand {
     this.configManager = new RepoConfigManager();
   }
 
-  async listKeys(): Promise<void> {
+  async listKeys(options: ListOptions = {}): Promise<void> {
     try {
+      const format = OutputFormatter.resolve(options);
+      const reports = await this.buildKeyReports();
+
+      if (format === 'json') {
+        OutputFormatter.printJson(reports);
+        return;
+      }
+      if (format === 'tsv') {
+        OutputFormatter.printTsv(
+          ['name', 'type', 'bits', 'fingerprint', 'relativePath', 'comment', 'encrypted', 'loadedInAgent', 'repositories', 'accounts', 'lastTest', 'lastTestAt'],
+          reports.map(report => [
+            report.name,
+            report.type,
+            report.bits,
+            report.fingerprint,
+            report.relativePath,
+            report.comment,
+            report.encrypted,
+            report.loadedInAgent,
+            report.repositories,
+            report.accounts.map(entry => `${entry.account}@${entry.host}`),
+            report.lastTest ? (report.lastTest.success ? 'ok' : 'failed') : null,
+            report.lastTest?.checkedAt
+          ])
+        );
+        return;
+      }
+
       console.log(chalk.blue('🔑 Available SSH Keys:'));
       console.log(chalk.gray('─'.repeat(50)));
 
-      const keys = await this.sshManager.discoverSSHKeys();
-      
-      if (keys.length === 0) {
+      if (reports.length === 0) {
         console.log(chalk.yellow('No SSH keys found in ~/.ssh directory'));
         return;
       }
 
-      keys.forEach((key, index) => {
-        console.log(chalk.green(`${index + 1}. ${key.name}`));
-        console.log(chalk.gray(`   Type: ${key.type}`));
-        console.log(chalk.gray(`   Path: ${key.path}`));
-        console.log(chalk.gray(`   Fingerprint: ${key.fingerprint}`));
+      reports.forEach((report, index) => {
+        console.log(chalk.green(`${index + 1}. ${report.name}`));
+        console.log(chalk.gray(`   Type: ${report.algorithm || report.type}${report.bits ? ` (${report.bits} bits)` : ''}`));
+        console.log(chalk.gray(`   Path: ${report.path}`));
+        console.log(chalk.gray(`   Fingerprint: ${report.fingerprint}`));
+        if (report.comment) {
+          console.log(chalk.gray(`   Comment: ${report.comment}`));
+        }
+        if (report.encrypted) {
+          console.log(chalk.gray(`   Passphrase: encrypted / ${report.loadedInAgent ? 'loaded in agent' : 'not loaded in agent'}`));
+        }
+        if (report.accounts.length > 0) {
+          console.log(chalk.gray(`   Accounts: ${report.accounts.map(entry => `${entry.account}@${entry.host}`).join(', ')}`));
+        }
+        if (report.repositories.length > 0) {
+          console.log(chalk.gray(`   Repositories: ${report.repositories.length}`));
+        }
         console.log();
       });
 
+      if (reports.every(report => report.accounts.length === 0)) {
+        console.log(chalk.gray('Run "gitsm whoami" to see which account each key belongs to.'));
+      }
+
     } catch (error) {
       console.error(chalk.red(`❌ Error listing SSH keys: ${error}`));
+      process.exit(1);
     }
   }
 
-  async listRepos(): Promise<void> {
+  async listRepos(options: ListOptions = {}): Promise<void> {
     try {
+      const format = OutputFormatter.resolve(options);
+      const config = await this.configManager.loadConfig();
+      const reports: RepoReport[] = Object.values(config.repositories).map(repo => ({
+        repoPath: repo.repoPath,
+        remoteUrl: repo.remoteUrl,
+        sshKeyPath: repo.sshKeyPath || null,
+        sshKeyRelativePath: repo.sshKeyPath ? PathUtils.toRelativeSSHPath(repo.sshKeyPath) : null,
+        identity: repo.identity || null,
+        createdAt: repo.createdAt,
+        lastTest: repo.lastTest || null
+      }));
+
+      if (format === 'json') {
+        OutputFormatter.printJson(reports);
+        return;
+      }
+      if (format === 'tsv') {
+        OutputFormatter.printTsv(
+          ['repoPath', 'remoteUrl', 'sshKey', 'identity', 'createdAt', 'lastTest', 'lastTestAt'],
+          reports.map(report => [
+            report.repoPath,
+            report.remoteUrl,
+            report.sshKeyRelativePath,
+            report.identity,
+            report.createdAt,
+            report.lastTest ? (report.lastTest.success ? 'ok' : 'failed') : null,
+            report.lastTest?.checkedAt
+          ])
+        );
+        return;
+      }
+
       console.log(chalk.blue('📁 Configured Repositories:'));
       console.log(chalk.gray('─'.repeat(50)));
 
-      const config = await this.configManager.loadConfig();
-      const repos = Object.values(config.repositories);
-
-      if (repos.length === 0) {
+      if (reports.length === 0) {
         console.log(chalk.yellow('No repositories configured with GITSM'));
         return;
       }
 
-      repos.forEach((repo, index) => {
+      reports.forEach((repo, index) => {
         console.log(chalk.green(`${index + 1}. ${repo.repoPath}`));
         console.log(chalk.gray(`   Remote: ${repo.remoteUrl}`));
-        console.log(chalk.gray(`   SSH Key: ${repo.sshKeyPath}`));
+        console.log(chalk.gray(`   SSH Key: ${repo.sshKeyPath || 'none (HTTPS)'}`));
         console.log(chalk.gray(`   Created: ${new Date(repo.createdAt).toLocaleDateString()}`));
+        if (repo.lastTest) {
+          const result = repo.lastTest.success ? 'ok' : 'failed';
+          console.log(chalk.gray(`   Last test: ${result} (${new Date(repo.lastTest.checkedAt).toLocaleString()})`));
+        }
         console.log();
       });
 
     } catch (error) {
       console.error(chalk.red(`❌ Error listing repositories: ${error}`));
+      process.exit(1);
     }
   }
-}
\ No newline at end of file
+
+  private async buildKeyReports(): Promise<KeyReport[]> {
+    const keys = await this.sshManager.discoverSSHKeys();
+    const config = await this.configManager.loadConfig();
+    const accounts = config.accounts || {};
+    const repos = Object.values(config.repositories);
+
+    return keys.map(key => {
+      const keyRepos = repos.filter(repo => repo.sshKeyPath === key.path);
+      const lastTest = keyRepos
+        .filter(repo => repo.lastTest)
+        .map(repo => ({ ...repo.lastTest!, repoPath: repo.repoPath }))
+        .sort((a, b) => new Date(b.checkedAt).getTime() - new Date(a.checkedAt).getTime())[0];
+
+      return {
+        name: key.name,
+        path: key.path,
+        relativePath: key.relativePath,
+        type: key.type,
+        algorithm: key.algorithm || null,
+        bits: key.bits || null,
+        comment: key.comment || null,
+        fingerprint: key.fingerprint && key.fingerprint !== 'Unknown' ? key.fingerprint : null,
+        fingerprintMD5: key.fingerprintMD5 || null,
+        encrypted: !!key.encrypted,
+        loadedInAgent: !!key.loadedInAgent,
+        repositories: keyRepos.map(repo => repo.repoPath),
+        accounts: Object.entries(accounts[key.path] || {}).map(([host, entry]) => ({ host, ...entry })),
+        lastTest: lastTest || null
+      };
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import chalk from 'chalk';
+import { RepoConfigManager } from '../core/repo-config';
+import { GitWrapper } from '../core/git-wrapper';
+import { PromptUtils, exitIfPromptRequired } from '../utils/prompt-utils';
+import { PathUtils } from '../utils/path-utils';
+import { RemoteUrl } from '../utils/remote-url';
+
+export class ReposCommand {
+  private configManager: RepoConfigManager;
+  private gitWrapper: GitWrapper;
+  private promptUtils: PromptUtils;
+
+  constructor() {
+    this.configManager = new RepoConfigManager();
+    this.gitWrapper = new GitWrapper();
+    this.promptUtils = new PromptUtils();
+  }
+
+  /**
+   * Point the entry of a moved repository at its new location
+   */
+  async relocate(from: string, to: string): Promise<void> {
+    try {
+      const { from: oldPath, repo } = await this.configManager.relocate(from, to);
+      console.log(chalk.green(`✅ ${oldPath} → ${repo.repoPath}`));
+
+      const currentUrl = await this.gitWrapper.getRemoteUrl(repo.repoPath);
+      const stored = RemoteUrl.tryParse(repo.remoteUrl);
+      const current = currentUrl ? RemoteUrl.tryParse(currentUrl) : null;
+      if (stored && current && !stored.sameRepository(current)) {
+        console.log(chalk.yellow(`⚠️  The remote is now ${currentUrl}, not ${repo.remoteUrl}. Run "gitsm fix ${repo.repoPath}" if the key no longer fits.`));
+      }
+
+      // A fresh clone in the new place has no core.sshCommand of its own
+      if (repo.sshKeyPath) {
+        const expectedCommand = this.gitWrapper.buildSSHCommand(PathUtils.normalizeForSSH(repo.sshKeyPath));
+        if (this.gitWrapper.getConfig(repo.repoPath, 'core.sshCommand') !== expectedCommand) {
+          this.gitWrapper.setConfig(repo.repoPath, 'core.sshCommand', expectedCommand);
+          console.log(chalk.gray(`Set core.sshCommand to use ${PathUtils.toRelativeSSHPath(repo.sshKeyPath)}`));
+        }
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to relocate repository: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Forget repositories whose directory is gone
+   */
+  async prune(options: { dryRun?: boolean } = {}): Promise<void> {
+    try {
+      const missing = await this.configManager.findMissingRepos();
+      if (missing.length === 0) {
+        console.log(chalk.green('✓ Every configured repository still exists'));
+        return;
+      }
+
+      console.log(chalk.yellow(`${missing.length} configured repositor${missing.length === 1 ? 'y no longer exists' : 'ies no longer exist'}:`));
+      missing.forEach(repo => console.log(chalk.gray(`   ${repo.repoPath}  (${repo.remoteUrl})`)));
+      console.log(chalk.gray('Moved repositories can be kept with "gitsm repos relocate <old> <new>" instead.'));
+
+      if (options.dryRun) {
+        return;
+      }
+      if (!await this.promptUtils.confirmAction(`Remove ${missing.length === 1 ? 'this entry' : 'these entries'} from the gitsm config?`)) {
+        console.log(chalk.yellow('Nothing removed.'));
+        return;
+      }
+
+      await this.configManager.removeRepos(missing.map(repo => repo.repoPath));
+      console.log(chalk.green(`✅ Removed ${missing.length} entr${missing.length === 1 ? 'y' : 'ies'}`));
+    } catch (error) {
+      exitIfPromptRequired(error);
+      console.error(chalk.red(`❌ Failed to prune repositories: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import * as fs from 'fs-extra';
+import chalk from 'chalk';
+import { RuleManager } from '../core/rule-manager';
+import { PathUtils } from '../utils/path-utils';
+
+export class RulesCommand {
+  private ruleManager: RuleManager;
+
+  constructor() {
+    this.ruleManager = new RuleManager();
+  }
+
+  async list(): Promise<void> {
+    try {
+      console.log(chalk.blue('📏 Key Selection Rules:'));
+      console.log(chalk.gray('─'.repeat(50)));
+
+      const rules = await this.ruleManager.getRules();
+      if (rules.length === 0) {
+        console.log(chalk.yellow('No rules configured. Add one with "gitsm rules add <pattern> <keyPath>"'));
+        return;
+      }
+
+      rules.forEach((rule, index) => {
+        console.log(chalk.green(`${index + 1}. ${rule.pattern}`));
+        console.log(chalk.gray(`   SSH Key: ${PathUtils.toRelativeSSHPath(rule.sshKeyPath)}`));
+      });
+      console.log(chalk.gray('\nRules are evaluated top to bottom; the first match wins.'));
+    } catch (error) {
+      console.error(chalk.red(`❌ Error listing rules: ${error}`));
+    }
+  }
+
+  async add(pattern: string, keyPath: string): Promise<void> {
+    try {
+      const sshKeyPath = PathUtils.toAbsolute(PathUtils.fromRelativeSSHPath(keyPath));
+      if (!await fs.pathExists(sshKeyPath)) {
+        console.error(chalk.red(`❌ SSH key does not exist: ${sshKeyPath}`));
+        process.exit(1);
+      }
+
+      await this.ruleManager.addRule({ pattern, sshKeyPath });
+      console.log(chalk.green(`✅ Rule added: ${pattern} → ${PathUtils.toRelativeSSHPath(sshKeyPath)}`));
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to add rule: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  async remove(pattern: string): Promise<void> {
+    try {
+      if (!await this.ruleManager.removeRule(pattern)) {
+        console.error(chalk.red(`❌ No rule with pattern '${pattern}'`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`✅ Rule removed: ${pattern}`));
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to remove rule: ${error}`));
+      process.exit(1);
+    }
+  }
+
+  async test(repoUrl: string): Promise<void> {
+    try {
+      const rule = await this.ruleManager.findMatch(repoUrl);
+      if (!rule) {
+        console.log(chalk.yellow(`No rule matches ${repoUrl}; gitsm will ask which key to use.`));
+        return;
+      }
+
+      console.log(chalk.green(`✅ Rule '${rule.pattern}' applies to ${repoUrl}`));
+      console.log(chalk.gray(`   SSH Key: ${PathUtils.toRelativeSSHPath(rule.sshKeyPath)}`));
+      if (!await fs.pathExists(rule.sshKeyPath)) {
+        console.log(chalk.yellow('⚠️  The key of this rule no longer exists'));
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ Error testing rules: ${error}`));
+    }
+  }
+}
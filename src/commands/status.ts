@@ -0,0 +1,195 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import chalk from 'chalk';
+import { SSHManager } from '../core/ssh-manager';
+import { GitWrapper } from '../core/git-wrapper';
+import { RepoConfigManager } from '../core/repo-config';
+import { HostKeyManager } from '../core/host-key-manager';
+import { PathUtils } from '../utils/path-utils';
+import { RemoteUrl } from '../utils/remote-url';
+import { OutputFormatter } from '../utils/output-format';
+import { RepoStatusReport } from '../types';
+
+interface StatusOptions {
+  test?: boolean;
+  json?: boolean;
+  format?: string;
+}
+
+export class StatusCommand {
+  private sshManager: SSHManager;
+  private gitWrapper: GitWrapper;
+  private configManager: RepoConfigManager;
+  private hostKeyManager: HostKeyManager;
+
+  constructor() {
+    this.sshManager = new SSHManager();
+    this.gitWrapper = new GitWrapper();
+    this.configManager = new RepoConfigManager();
+    this.hostKeyManager = new HostKeyManager();
+  }
+
+  /**
+   * Show how a repository authenticates. Exits 1 when git and the gitsm config disagree.
+   */
+  async execute(repoPath: string = '.', options: StatusOptions = {}): Promise<void> {
+    try {
+      const format = OutputFormatter.resolve(options);
+      const resolvedPath = path.resolve(repoPath);
+      const repoRoot = this.gitWrapper.getTopLevel(resolvedPath);
+      if (!repoRoot) {
+        console.error(chalk.red(`❌ Not a Git repository: ${resolvedPath}`));
+        process.exit(1);
+      }
+
+      const report = await this.buildReport(repoRoot, options.test !== false);
+
+      if (format === 'json') {
+        OutputFormatter.printJson(report);
+      } else if (format === 'tsv') {
+        OutputFormatter.printTsv(
+          ['repoPath', 'managed', 'remoteUrl', 'sshKey', 'type', 'fingerprint', 'sshCommand', 'inSync', 'test', 'problems'],
+          [[
+            report.repoPath,
+            report.managed,
+            report.remotes[0]?.url,
+            report.sshKeyPath ? PathUtils.toRelativeSSHPath(report.sshKeyPath) : null,
+            report.key?.type,
+            report.key?.fingerprint,
+            report.sshCommand,
+            report.inSync,
+            report.test ? (report.test.success ? 'ok' : 'failed') : null,
+            report.problems.join('; ')
+          ]]
+        );
+      } else {
+        this.printReport(report);
+      }
+
+      if (!report.managed || report.problems.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red(`❌ Error reading repository status: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+
+  private async buildReport(repoRoot: string, runTest: boolean): Promise<RepoStatusReport> {
+    const repoConfig = await this.configManager.findRepo(repoRoot);
+    const remotes = (await this.gitWrapper.getRemotes(repoRoot)).map(remote => ({
+      ...remote,
+      protocol: RemoteUrl.tryParse(remote.url)?.protocol || 'local'
+    }));
+    const origin = remotes.find(remote => remote.name === 'origin') || remotes[0];
+    const sshCommand = this.gitWrapper.getEffectiveConfig(repoRoot, 'core.sshCommand');
+
+    const report: RepoStatusReport = {
+      repoPath: repoRoot,
+      managed: !!repoConfig,
+      remotes,
+      identity: repoConfig?.identity || null,
+      sshKeyPath: repoConfig?.sshKeyPath || null,
+      key: null,
+      sshCommand,
+      inSync: false,
+      problems: [],
+      test: null
+    };
+    if (!repoConfig) {
+      return report;
+    }
+
+    if (origin && repoConfig.remoteUrl && origin.url !== repoConfig.remoteUrl) {
+      report.problems.push(`remote ${origin.name} is ${origin.url}, gitsm recorded ${repoConfig.remoteUrl}`);
+    }
+
+    if (!repoConfig.sshKeyPath) {
+      report.inSync = !sshCommand;
+      if (sshCommand) {
+        report.problems.push('core.sshCommand is set but gitsm configured this repository for HTTPS');
+      }
+      return report;
+    }
+
+    const keyExists = await fs.pathExists(repoConfig.sshKeyPath);
+    if (keyExists) {
+      const key = await this.sshManager.describeKey(repoConfig.sshKeyPath);
+      report.key = { type: key.type, fingerprint: key.fingerprint && key.fingerprint !== 'Unknown' ? key.fingerprint : null };
+    } else {
+      report.problems.push(`SSH key ${repoConfig.sshKeyPath} does not exist`);
+    }
+
+    report.inSync = sshCommand === this.gitWrapper.buildSSHCommand(PathUtils.normalizeForSSH(repoConfig.sshKeyPath));
+    if (!report.inSync) {
+      report.problems.push(sshCommand
+        ? 'core.sshCommand does not use the configured key'
+        : 'core.sshCommand is not set');
+    }
+
+    if (runTest && keyExists && origin && RemoteUrl.isSSH(origin.url)) {
+      // ssh refuses hosts missing from gitsm's known_hosts, which would be recorded as a failed test
+      const { host, port } = RemoteUrl.parse(origin.url).toSSH();
+      if (!await this.hostKeyManager.isKnown(host, port)) {
+        report.problems.push(`host key of ${this.hostKeyManager.hostEntryName(host, port)} is not trusted; run "gitsm hosts add ${host}" to check and trust it`);
+        return report;
+      }
+      const result = await this.sshManager.testSSHKey(repoConfig.sshKeyPath, origin.url, 10000);
+      await this.configManager.recordTestResult(repoConfig.repoPath, result);
+      report.test = { success: result.success, account: result.account, error: result.success ? undefined : result.error, checkedAt: new Date() };
+    }
+
+    return report;
+  }
+
+  private printReport(report: RepoStatusReport): void {
+    const notSet = chalk.gray('not set');
+
+    console.log(chalk.blue(`📁 ${report.repoPath}`));
+    console.log(chalk.gray('─'.repeat(50)));
+
+    if (report.remotes.length === 0) {
+      console.log(`Remote:       ${chalk.yellow('none')}`);
+    }
+    report.remotes.forEach(remote => {
+      console.log(`Remote:       ${remote.name.padEnd(8)} ${remote.url} ${chalk.gray(`(${remote.protocol.toUpperCase()})`)}`);
+    });
+
+    if (!report.managed) {
+      console.log(`Managed:      ${chalk.yellow('no')}`);
+      console.log(`sshCommand:   ${report.sshCommand || notSet}`);
+      console.log(chalk.gray('\nRun "gitsm convert" to manage this repository with gitsm.'));
+      return;
+    }
+
+    console.log(`Managed:      yes${report.identity ? ` (identity: ${report.identity})` : ''}`);
+
+    if (!report.sshKeyPath) {
+      console.log(`SSH key:      ${chalk.gray('none (HTTPS)')}`);
+    } else {
+      console.log(`SSH key:      ${PathUtils.toRelativeSSHPath(report.sshKeyPath)}${report.key ? '' : chalk.red(' (missing)')}`);
+      if (report.key) {
+        console.log(chalk.gray(`              ${report.key.type}  ${report.key.fingerprint || 'Unknown'}`));
+      }
+    }
+
+    console.log(`sshCommand:   ${report.sshCommand || notSet}`);
+    console.log(`In sync:      ${report.inSync ? chalk.green('yes') : chalk.red('no')}`);
+    if (process.env.GIT_SSH_COMMAND) {
+      console.log(chalk.yellow(`⚠️  GIT_SSH_COMMAND is set in your environment and overrides core.sshCommand`));
+    }
+
+    if (report.test) {
+      const account = report.test.account ? ` as ${report.test.account}` : '';
+      console.log(`Access:       ${report.test.success
+        ? chalk.green(`ok${account}`)
+        : chalk.red(`failed${report.test.error ? ` (${report.test.error.split('\n')[0]})` : ''}`)}`);
+    }
+
+    if (report.problems.length > 0) {
+      console.log(chalk.red('\nDrift detected:'));
+      report.problems.forEach(problem => console.log(chalk.red(`  ✕ ${problem}`)));
+      console.log(chalk.gray('Run "gitsm fix <path>" or "gitsm doctor --fix" to repair it.'));
+    }
+  }
+}
@@ -1,108 +1,169 @@
-import { execSync } from 'child_process';
+import * as path from 'path';
+import { ProcessRunner, RunOptions } from '../utils/process-runner';
+import { GitWrapper } from '../core/git-wrapper';
+import { RepoConfigManager } from '../core/repo-config';
+import { PathUtils } from '../utils/path-utils';
+import { PromptUtils, exitIfPromptRequired } from '../utils/prompt-utils';
 import chalk from 'chalk';
 
 interface SwitchOptions {
+  repo?: string;
   force?: boolean;
-  noPull?: boolean;
-  createBranch?: boolean;
+  pull?: boolean;      // false with --no-pull
+  create?: boolean;
 }
 
 export class SwitchCommand {
+  private gitWrapper: GitWrapper;
+  private configManager: RepoConfigManager;
+  private promptUtils: PromptUtils;
+
+  constructor() {
+    this.gitWrapper = new GitWrapper();
+    this.configManager = new RepoConfigManager();
+    this.promptUtils = new PromptUtils();
+  }
+
   async execute(targetBranch: string, options: SwitchOptions = {}): Promise<void> {
     try {
+      const resolvedPath = path.resolve(options.repo || '.');
+      const repoRoot = this.gitWrapper.getTopLevel(resolvedPath);
+      if (!repoRoot) {
+        console.error(chalk.red(`❌ Not a Git repository: ${resolvedPath}`));
+        process.exit(1);
+      }
+      const git = (args: string[], runOptions: RunOptions = {}) =>
+        ProcessRunner.runSync('git', args, { cwd: repoRoot, ...runOptions });
+
+      // Reject names git would not accept as a branch (this also rules out option-like names)
+      if (targetBranch.startsWith('-') || !ProcessRunner.succeeds('git', ['check-ref-format', '--branch', targetBranch])) {
+        console.error(chalk.red(`'${targetBranch}' is not a valid branch name.`));
+        process.exit(1);
+      }
+
+      // Fetches and pulls authenticate with the key gitsm configured for this repository
+      const remoteEnv = await this.remoteEnv(repoRoot);
+      const pull = options.pull !== false;
+
       // Get current branch name
-      const currentBranch = execSync('git rev-parse --abbrev-ref HEAD', { encoding: 'utf8' }).trim();
-      
+      const currentBranch = git(['rev-parse', '--abbrev-ref', 'HEAD']).stdout.trim();
+
       if (currentBranch === targetBranch) {
         console.log(chalk.yellow(`Already on branch '${targetBranch}'`));
-        if (!options.noPull) {
+        if (pull) {
           console.log(chalk.blue('⬇️  Pulling latest changes...'));
-          execSync('git pull', { stdio: 'inherit' });
+          git(['pull'], { stdio: 'inherit', env: remoteEnv });
         }
         return;
       }
 
-      // Check if target branch exists
-      const branchExists = this.branchExists(targetBranch);
-      if (!branchExists && !options.createBranch) {
-        console.error(chalk.red(`Branch '${targetBranch}' doesn't exist.`));
+      const localExists = this.refExists(repoRoot, `refs/heads/${targetBranch}`);
+      const remoteExists = localExists || this.remoteBranchExists(repoRoot, targetBranch, remoteEnv);
+
+      if (!localExists && !remoteExists && !options.create) {
+        console.error(chalk.red(`Branch '${targetBranch}' doesn't exist locally or on origin.`));
         console.log(chalk.gray('Tip: Use --create or -b to create a new branch'));
         process.exit(1);
       }
 
+      // Ask before touching the working tree, so declining leaves everything as it was
+      let track = false;
+      if (!localExists && remoteExists) {
+        track = await this.promptUtils.confirmAction(
+          `Branch '${targetBranch}' only exists on origin. Create a local branch tracking origin/${targetBranch}?`
+        );
+        if (!track && !options.create) {
+          console.log(chalk.yellow('Switch cancelled.'));
+          process.exit(1);
+        }
+      }
+
       // Show changes if any
-      const hasChanges = this.hasUncommittedChanges();
+      const hasChanges = this.hasUncommittedChanges(repoRoot);
       if (hasChanges) {
         console.log(chalk.yellow('\nUncommitted changes found:'));
-        execSync('git status --short', { stdio: 'inherit' });
-        
+        git(['status', '--short'], { stdio: 'inherit' });
+
         if (!options.force) {
           console.log(chalk.blue('\nChanges will be stashed. Summary:'));
-          execSync('git diff --stat', { stdio: 'inherit' });
+          git(['diff', '--stat'], { stdio: 'inherit' });
         }
       }
-      
+
       let stashId = '';
+      let stashRef = '';
       if (hasChanges) {
         console.log(chalk.blue('📦 Stashing current changes...'));
-        // Create stash and get its ID
-        const stashOutput = execSync('git stash push -m "Auto-stash before switching to ' + targetBranch + '"', { encoding: 'utf8' });
-        stashId = this.getStashId(stashOutput);
-        console.log(chalk.gray(`Stash created: ${stashId}`));
+        const previousStash = this.getStashId(repoRoot);
+        git(['stash', 'push', '-m', `Auto-stash before switching to ${targetBranch}`]);
+        stashId = this.getStashId(repoRoot);
+        if (stashId && stashId !== previousStash) {
+          stashRef = this.getStashRef(repoRoot, stashId);
+          console.log(chalk.gray(`Stash created: ${stashRef} (${stashId.slice(0, 7)})`));
+        } else {
+          // Only untracked files changed; git leaves those in the working tree
+          stashId = '';
+          console.log(chalk.gray('Nothing to stash; untracked files stay in the working tree.'));
+        }
       }
 
-      // Create or switch to branch
-      if (!branchExists && options.createBranch) {
+      // Create, track or switch to branch
+      if (track) {
+        console.log(chalk.blue(`🔄 Creating '${targetBranch}' tracking origin/${targetBranch}...`));
+        git(['checkout', '-b', targetBranch, '--track', `origin/${targetBranch}`], { stdio: 'inherit' });
+      } else if (!localExists) {
         console.log(chalk.blue(`🔄 Creating and switching to new branch '${targetBranch}'...`));
-        execSync(`git checkout -b ${targetBranch}`, { stdio: 'inherit' });
+        git(['checkout', '-b', targetBranch], { stdio: 'inherit' });
       } else {
         console.log(chalk.blue(`🔄 Switching to ${targetBranch}...`));
-        execSync(`git checkout ${targetBranch}`, { stdio: 'inherit' });
+        git(['checkout', targetBranch, '--'], { stdio: 'inherit' });
       }
 
       // Pull latest changes unless --no-pull is specified
-      if (!options.noPull && branchExists) {
+      const pulled = pull && (localExists || track);
+      if (pulled) {
         console.log(chalk.blue('⬇️  Pulling latest changes...'));
         try {
-          execSync('git pull', { stdio: 'inherit' });
+          git(['pull'], { stdio: 'inherit', env: remoteEnv });
         } catch (error) {
           console.log(chalk.yellow('⚠️  Pull failed. You might need to set up tracking or handle merge conflicts.'));
         }
       }
 
-      if (hasChanges && stashId) {
+      if (stashId) {
         try {
           // Try to apply stashed changes using apply (keeps the stash)
           console.log(chalk.blue('📦 Applying stashed changes...'));
-          execSync('git stash apply ' + stashId, { stdio: 'inherit' });
+          git(['stash', 'apply', stashId], { stdio: 'inherit' });
           console.log(chalk.green('✅ Successfully applied stashed changes'));
-          
-          // Ask user if they want to drop the stash
-          const keepStash = this.hasConflicts();
+
+          // Keep the stash when applying it left conflicts
+          const keepStash = this.hasConflicts(repoRoot);
           if (!keepStash) {
             console.log(chalk.blue('🗑️  Removing successful stash...'));
-            execSync('git stash drop ' + stashId, { stdio: 'inherit' });
+            git(['stash', 'drop', this.getStashRef(repoRoot, stashId)], { stdio: 'inherit' });
           } else {
             console.log(chalk.yellow('⚠️  Changes applied but there might be conflicts.'));
-            console.log(chalk.yellow(`Your changes are preserved in stash: ${stashId}`));
+            console.log(chalk.yellow(`Your changes are preserved in stash: ${stashRef}`));
             console.log(chalk.gray('After resolving conflicts, you can remove the stash with:'));
-            console.log(chalk.gray(`git stash drop ${stashId}`));
+            console.log(chalk.gray(`git stash drop ${stashRef}`));
           }
         } catch (error) {
           console.log(chalk.yellow('⚠️  There were conflicts while applying your changes.'));
-          console.log(chalk.yellow(`Your changes are safe in stash: ${stashId}`));
+          console.log(chalk.yellow(`Your changes are safe in stash: ${stashRef}`));
           console.log(chalk.gray('To recover:'));
           console.log(chalk.gray('1. Resolve conflicts manually'));
-          console.log(chalk.gray(`2. Run: git stash apply ${stashId}`));
+          console.log(chalk.gray(`2. Run: git stash apply ${stashRef}`));
           console.log(chalk.gray('3. After successful apply and conflict resolution:'));
-          console.log(chalk.gray(`   git stash drop ${stashId}`));
+          console.log(chalk.gray(`   git stash drop ${stashRef}`));
           return;
         }
       }
 
-      console.log(chalk.green(`✅ Successfully switched to ${targetBranch} and pulled latest changes`));
+      console.log(chalk.green(`✅ Successfully switched to ${targetBranch}${pulled ? ' and pulled latest changes' : ''}`));
 
     } catch (error: any) {
+      exitIfPromptRequired(error);
       if (error.message.includes('Please commit your changes or stash them')) {
         console.error(chalk.red('❌ You have conflicting changes that cannot be stashed automatically.'));
         console.error(chalk.yellow('Please commit or stash your changes manually before switching branches.'));
@@ -113,18 +174,43 @@ export class SwitchCommand {
     }
   }
 
-  private getStashId(stashOutput: string): string {
-    // Example output: "Saved working directory and index state On branch-name: Auto-stash..."
-    const match = stashOutput.match(/Saved working directory.*state\s+(.*?):/);
-    return match ? match[1] : 'stash@{0}';
+  /**
+   * GIT_SSH_COMMAND for the key gitsm configured, or nothing for unmanaged and HTTPS repositories
+   */
+  private async remoteEnv(repoRoot: string): Promise<NodeJS.ProcessEnv | undefined> {
+    const sshKeyPath = (await this.configManager.findRepo(repoRoot))?.sshKeyPath;
+    return sshKeyPath
+      ? { GIT_SSH_COMMAND: this.gitWrapper.buildSSHCommand(PathUtils.normalizeForSSH(sshKeyPath)) }
+      : undefined;
+  }
+
+  /**
+   * Commit of the newest stash entry, which stays valid when later entries shift the stash@{n} numbers
+   */
+  private getStashId(repoRoot: string): string {
+    try {
+      return ProcessRunner.runSync('git', ['rev-parse', '--verify', '--quiet', 'refs/stash'], { cwd: repoRoot }).stdout.trim();
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * stash@{n} name of a stash commit, as required by git stash drop
+   */
+  private getStashRef(repoRoot: string, stashId: string): string {
+    const entry = this.getStashList(repoRoot)
+      .map(line => line.split(' '))
+      .find(([, commit]) => commit === stashId);
+    return entry ? entry[0] : stashId;
   }
 
-  private hasConflicts(): boolean {
+  private hasConflicts(repoRoot: string): boolean {
     try {
       // Check both merge conflicts and stash conflicts
-      const status = execSync('git status --porcelain', { encoding: 'utf8' });
+      const status = ProcessRunner.runSync('git', ['status', '--porcelain'], { cwd: repoRoot }).stdout;
       const lines = status.split('\n');
-      return lines.some(line => 
+      return lines.some(line =>
         line.startsWith('UU') || // Merge conflicts
         line.startsWith('AA') || // Both added
         line.startsWith('DD')    // Both deleted
@@ -134,32 +220,45 @@ export class SwitchCommand {
     }
   }
 
-  private hasUncommittedChanges(): boolean {
+  private hasUncommittedChanges(repoRoot: string): boolean {
     try {
-      const status = execSync('git status --porcelain', { encoding: 'utf8' });
+      const status = ProcessRunner.runSync('git', ['status', '--porcelain'], { cwd: repoRoot }).stdout;
       return status.length > 0;
     } catch {
       return false;
     }
   }
 
-  private branchExists(branch: string): boolean {
+  private refExists(repoRoot: string, ref: string): boolean {
+    return ProcessRunner.succeeds('git', ['rev-parse', '--verify', '--quiet', ref], { cwd: repoRoot });
+  }
+
+  /**
+   * Whether origin has the branch. Refreshes origin/<branch> first, so a branch pushed
+   * since the last fetch is found; offline, the last fetched state is used.
+   */
+  private remoteBranchExists(repoRoot: string, branch: string, remoteEnv?: NodeJS.ProcessEnv): boolean {
+    if (!ProcessRunner.succeeds('git', ['remote', 'get-url', 'origin'], { cwd: repoRoot })) {
+      return false;
+    }
+
     try {
-      execSync(`git rev-parse --verify ${branch}`, { stdio: 'ignore' });
-      return true;
-    } catch {
-      try {
-        execSync(`git rev-parse --verify origin/${branch}`, { stdio: 'ignore' });
-        return true;
-      } catch {
-        return false;
+      ProcessRunner.runSync('git', ['fetch', '--quiet', 'origin', `+refs/heads/${branch}:refs/remotes/origin/${branch}`], {
+        cwd: repoRoot,
+        env: remoteEnv,
+        timeout: 60000
+      });
+    } catch (error: any) {
+      if (!/couldn't find remote ref/i.test(error.message)) {
+        console.log(chalk.gray(`Could not reach origin, using the last fetched branches: ${error.message.split('\n').pop()}`));
       }
     }
+    return this.refExists(repoRoot, `refs/remotes/origin/${branch}`);
   }
 
-  private async getStashList(): Promise<string[]> {
+  private getStashList(repoRoot: string): string[] {
     try {
-      const output = execSync('git stash list', { encoding: 'utf8' });
+      const output = ProcessRunner.runSync('git', ['stash', 'list', '--format=%gd %H'], { cwd: repoRoot }).stdout;
       return output.split('\n').filter(line => line.trim());
     } catch {
       return [];
@@ -0,0 +1,74 @@
+import * as path from 'path';
+import chalk from 'chalk';
+import { RepoConfigManager } from '../core/repo-config';
+import { GitWrapper } from '../core/git-wrapper';
+import { RepoOriginalState } from '../types';
+import { PromptUtils, exitIfPromptRequired } from '../utils/prompt-utils';
+
+// Repositories configured before gitsm kept a record: undo what every version of gitsm sets up
+const LEGACY_STATE: RepoOriginalState = {
+  config: { 'core.sshCommand': null },
+  createdFiles: ['ssh/wrapper.sh']
+};
+
+export class UnmanageCommand {
+  private configManager: RepoConfigManager;
+  private gitWrapper: GitWrapper;
+  private promptUtils: PromptUtils;
+
+  constructor() {
+    this.configManager = new RepoConfigManager();
+    this.gitWrapper = new GitWrapper();
+    this.promptUtils = new PromptUtils();
+  }
+
+  /**
+   * Restore what gitsm changed in a repository and forget it
+   */
+  async execute(repoPath: string = '.'): Promise<void> {
+    try {
+      const resolvedPath = path.resolve(repoPath);
+      const repoRoot = this.gitWrapper.getTopLevel(resolvedPath);
+      if (!repoRoot) {
+        console.error(chalk.red(`❌ Not a Git repository: ${resolvedPath}`));
+        console.log(chalk.gray('Use "gitsm repos prune" to forget repositories that were deleted.'));
+        process.exit(1);
+      }
+
+      const repoConfig = await this.configManager.findRepo(repoRoot);
+      const recorded = this.gitWrapper.getOriginalState(repoRoot);
+      if (!repoConfig && !recorded) {
+        console.log(chalk.yellow(`${repoRoot} is not managed by gitsm.`));
+        process.exit(1);
+      }
+
+      const steps = this.gitWrapper.planRestore(repoRoot, recorded || LEGACY_STATE);
+      console.log(chalk.blue(`📁 ${repoRoot}`));
+      if (!recorded) {
+        console.log(chalk.gray('gitsm has no record of the original settings, so only its SSH configuration is removed.'));
+      }
+      steps.forEach(step => console.log(chalk.gray(`   • ${step.description}`)));
+      if (repoConfig) {
+        console.log(chalk.gray('   • remove the repository from the gitsm config'));
+      }
+
+      if (!await this.promptUtils.confirmAction('Restore these settings and stop managing the repository?')) {
+        console.log(chalk.yellow('Nothing changed.'));
+        return;
+      }
+
+      for (const step of steps) {
+        await step.apply();
+      }
+      await this.gitWrapper.clearOriginalState(repoRoot);
+      if (repoConfig) {
+        await this.configManager.removeRepos([repoConfig.repoPath]);
+      }
+      console.log(chalk.green(`✅ ${repoRoot} is no longer managed by gitsm`));
+    } catch (error) {
+      exitIfPromptRequired(error);
+      console.error(chalk.red(`❌ Failed to unmanage repository: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import chalk from 'chalk';
+import { SSHManager } from '../core/ssh-manager';
+import { RepoConfigManager } from '../core/repo-config';
+import { HostKeyManager } from '../core/host-key-manager';
+import { OutputFormatter } from '../utils/output-format';
+
+const KNOWN_HOSTS = ['github.com', 'gitlab.com', 'bitbucket.org'];
+
+export class WhoamiCommand {
+  private sshManager: SSHManager;
+  private configManager: RepoConfigManager;
+  private hostKeyManager: HostKeyManager;
+
+  constructor() {
+    this.sshManager = new SSHManager();
+    this.configManager = new RepoConfigManager();
+    this.hostKeyManager = new HostKeyManager();
+  }
+
+  async execute(options: { host?: string[]; json?: boolean; format?: string } = {}): Promise<void> {
+    try {
+      const format = OutputFormatter.resolve(options);
+      const requestedHosts = options.host && options.host.length > 0 ? options.host : KNOWN_HOSTS;
+      const hosts: string[] = [];
+      for (const host of requestedHosts) {
+        // Machine-readable runs never stop to ask about unknown hosts
+        const trusted = format === 'table'
+          ? await this.hostKeyManager.ensureTrusted(host)
+          : await this.hostKeyManager.isKnown(host);
+        if (trusted) {
+          hosts.push(host);
+        } else {
+          console.warn(chalk.yellow(`Skipping ${host}: host key not trusted`));
+        }
+      }
+      if (hosts.length === 0) {
+        return;
+      }
+
+      const keys = await this.sshManager.discoverSSHKeys();
+
+      if (keys.length === 0 && format === 'table') {
+        console.log(chalk.yellow('No SSH keys found in ~/.ssh directory'));
+        return;
+      }
+
+      if (format === 'table') {
+        console.log(chalk.blue(`🔍 Testing ${keys.length} SSH keys against ${hosts.join(', ')}...`));
+      }
+
+      // Every key/host pair is independent, so probe them all at once
+      const probes = keys.flatMap(key => hosts.map(async host => {
+        const { authenticated, account } = await this.sshManager.authenticate(key.path, host);
+        return { keyPath: key.path, host, authenticated, account: authenticated ? account || '(unknown)' : undefined };
+      }));
+      const results = await Promise.all(probes);
+
+      await this.configManager.setKeyAccounts(results);
+
+      if (format !== 'table') {
+        const rows = results.map(result => ({
+          key: keys.find(key => key.path === result.keyPath)!.name,
+          keyPath: result.keyPath,
+          host: result.host,
+          authenticated: result.authenticated,
+          account: result.account || null
+        }));
+        if (format === 'json') {
+          OutputFormatter.printJson(rows);
+        } else {
+          OutputFormatter.printTsv(['key', 'keyPath', 'host', 'authenticated', 'account'], rows.map(row => Object.values(row)));
+        }
+        return;
+      }
+
+      const nameWidth = Math.max(3, ...keys.map(key => key.name.length));
+      const columnWidth = Math.max(16, ...hosts.map(host => host.length));
+      const header = ['Key'.padEnd(nameWidth), ...hosts.map(host => host.padEnd(columnWidth))].join('  ');
+
+      console.log();
+      console.log(chalk.gray(header));
+      console.log(chalk.gray('─'.repeat(header.length)));
+      keys.forEach(key => {
+        const cells = hosts.map(host => {
+          const result = results.find(entry => entry.keyPath === key.path && entry.host === host);
+          return result?.account
+            ? chalk.green(result.account.padEnd(columnWidth))
+            : chalk.gray('—'.padEnd(columnWidth));
+        });
+        console.log([key.name.padEnd(nameWidth), ...cells].join('  '));
+      });
+      console.log();
+      console.log(chalk.gray('Accounts are cached and shown by "gitsm list keys".'));
+
+    } catch (error) {
+      console.error(chalk.red(`❌ Error testing SSH keys: ${error}`));
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import chalk from 'chalk';
+import { JournalEntry, JournalOperation } from '../types';
+
+type Change = Pick<JournalEntry, 'kind' | 'repoPath' | 'setting' | 'oldValue' | 'newValue'>;
+
+/**
+ * Append-only record of every change gitsm makes, one JSON object per line in ~/.gitsm/journal.jsonl
+ */
+export class ChangeJournal {
+  // All changes of one gitsm run share an id, so "gitsm undo <id>" reverts them together
+  private static readonly operation = randomBytes(4).toString('hex');
+  private static undoes?: string;
+
+  static getPath(): string {
+    const homeDir = process.env.HOME || process.env.USERPROFILE || '';
+    return path.join(homeDir, '.gitsm', 'journal.jsonl');
+  }
+
+  static getOperationId(): string {
+    return this.operation;
+  }
+
+  /**
+   * Mark the remaining changes of this run as reverting an earlier operation
+   */
+  static beginUndo(operation: string): void {
+    this.undoes = operation;
+  }
+
+  /**
+   * Append a change unless the value stayed the same. Synchronous, so sync git config writes can record too;
+   * a failure only warns, since the change itself already happened.
+   */
+  static record(change: Change): void {
+    if (JSON.stringify(change.oldValue) === JSON.stringify(change.newValue)) {
+      return;
+    }
+
+    const entry: JournalEntry = {
+      operation: this.operation,
+      timestamp: new Date(),
+      command: process.argv.slice(2).join(' '),
+      ...change,
+      ...(this.undoes ? { undoes: this.undoes } : {})
+    };
+    try {
+      fs.ensureDirSync(path.dirname(this.getPath()));
+      // One append per entry keeps the lines of parallel gitsm runs from interleaving
+      fs.appendFileSync(this.getPath(), `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      console.warn(chalk.yellow(`Could not write to the change journal: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  }
+
+  /**
+   * Every operation, oldest first
+   */
+  static async readOperations(): Promise<JournalOperation[]> {
+    if (!await fs.pathExists(this.getPath())) {
+      return [];
+    }
+
+    const operations = new Map<string, JournalOperation>();
+    const content = await fs.readFile(this.getPath(), 'utf8');
+    for (const line of content.split('\n')) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        continue;   // Blank, or cut short by a crash
+      }
+      if (!parsed || typeof parsed !== 'object' || !('operation' in parsed) || typeof parsed.operation !== 'string') {
+        continue;   // Not written by gitsm
+      }
+      const entry = parsed as JournalEntry;
+      entry.timestamp = new Date(entry.timestamp);
+
+      let operation = operations.get(entry.operation);
+      if (!operation) {
+        operation = {
+          id: entry.operation,
+          timestamp: entry.timestamp,
+          command: entry.command,
+          undoes: entry.undoes || null,
+          undoneBy: null,
+          changes: []
+        };
+        operations.set(entry.operation, operation);
+      }
+      operation.changes.push(entry);
+    }
+
+    // Newest first, so an undo that was itself undone does not count
+    for (const operation of [...operations.values()].reverse()) {
+      const undone = operation.undoes && !operation.undoneBy ? operations.get(operation.undoes) : undefined;
+      if (undone && !undone.undoneBy) {
+        undone.undoneBy = operation.id;
+      }
+    }
+    return [...operations.values()];
+  }
+}
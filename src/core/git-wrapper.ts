@@ -1,18 +1,23 @@
 // src/core/git-wrapper.ts - Enhanced with HTTPS fallback
-import { execSync, spawn } from 'child_process';
 import * as path from 'path';
+import * as fs from 'fs-extra';
 import { PathUtils } from '../utils/path-utils';
+import { ProcessRunner } from '../utils/process-runner';
+import { RemoteUrl } from '../utils/remote-url';
+import { ChangeJournal } from './change-journal';
+import { Identity, GitCloneOptions, RepoOriginalState } from '../types';
 import chalk from 'chalk';
 
 export class GitWrapper {
-  async clone(repoUrl: string, targetDir: string, sshKeyPath?: string): Promise<void> {
+  async clone(repoUrl: string, targetDir: string, sshKeyPath?: string, options: GitCloneOptions = {}): Promise<void> {
     try {
-      if (sshKeyPath && repoUrl.startsWith('git@')) {
+      const isSSH = RemoteUrl.isSSH(repoUrl);
+      if (sshKeyPath && isSSH) {
         // Try SSH clone first
-        await this.cloneWithSSH(repoUrl, targetDir, sshKeyPath);
-      } else if (!repoUrl.startsWith('git@')) {
+        await this.cloneWithSSH(repoUrl, targetDir, sshKeyPath, options);
+      } else if (!isSSH) {
         // Only use HTTPS if URL is already HTTPS
-        await this.cloneWithHTTPS(repoUrl, targetDir);
+        await this.cloneWithHTTPS(repoUrl, targetDir, options);
       } else {
         throw new Error('SSH key is required for SSH URLs');
       }
@@ -22,7 +27,21 @@ export class GitWrapper {
     }
   }
 
-  private async cloneWithSSH(repoUrl: string, targetDir: string, sshKeyPath: string): Promise<void> {
+  private cloneArgs(repoUrl: string, targetDir: string, options: GitCloneOptions): string[] {
+    const args = ['clone'];
+    if (options.branch) {
+      args.push('--branch', options.branch);
+    }
+    if (options.depth) {
+      args.push('--depth', String(options.depth));
+    }
+    if (options.quiet) {
+      args.push('--quiet');
+    }
+    return [...args, '--', repoUrl, targetDir];
+  }
+
+  private async cloneWithSSH(repoUrl: string, targetDir: string, sshKeyPath: string, options: GitCloneOptions): Promise<void> {
     const fs = require('fs-extra');
     try {
       // Normalize and validate SSH key path
@@ -32,37 +51,21 @@ export class GitWrapper {
       }
       
       // Use GIT_SSH_COMMAND for the initial clone
-      const sshCommand = `ssh -i "${normalizedPath}" -F /dev/null -o IdentitiesOnly=yes -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null`;
+      const sshCommand = this.buildSSHCommand(normalizedPath);
       
       // Clone the repository
-      console.log(chalk.blue('🚀 Cloning repository...'));
-      execSync(`git clone "${repoUrl}" "${targetDir}"`, {
-        stdio: 'inherit',
-        env: { ...process.env, GIT_SSH_COMMAND: sshCommand }
+      if (!options.quiet) {
+        console.log(chalk.blue('🚀 Cloning repository...'));
+      }
+      // Quiet clones have no terminal for a passphrase prompt, so ssh must fail instead of waiting
+      await ProcessRunner.run('git', this.cloneArgs(repoUrl, targetDir, options), {
+        stdio: options.quiet ? 'pipe' : 'inherit',
+        env: { GIT_SSH_COMMAND: options.quiet ? PathUtils.createSSHCommand(normalizedPath, ['-o', 'BatchMode=yes']) : sshCommand }
       });
       
       // Configure SSH command in the repository
       try {
-        const configPath = path.join(targetDir, '.git', 'config');
-        let configText = fs.readFileSync(configPath, 'utf-8');
-        const normalizedPathForConfig = normalizedPath.replace(/\\/g, '/');
-        const sshConfigValue = `ssh -i "${normalizedPathForConfig}" -F /dev/null -o IdentitiesOnly=yes -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null`;
-        
-        // Find [core] section
-        const coreSectionRegex = /(^|\n)\[core\][^\[]*/;
-        const match = configText.match(coreSectionRegex);
-        if (match) {
-          let coreBlock = match[0];
-          if (/sshCommand\s*=/.test(coreBlock)) {
-            coreBlock = coreBlock.replace(/sshCommand\s*=.*(\n|$)/, `sshCommand = ${sshConfigValue}\n`);
-          } else {
-            coreBlock = coreBlock.replace(/(\[core\][^\n]*\n)/, `$1sshCommand = ${sshConfigValue}\n`);
-          }
-          configText = configText.replace(coreSectionRegex, coreBlock);
-        } else {
-          configText += `\n[core]\nsshCommand = ${sshConfigValue}\n`;
-        }
-        fs.writeFileSync(configPath, configText, 'utf-8');
+        this.setConfig(targetDir, 'core.sshCommand', sshCommand);
       } catch (configError) {
         console.warn(chalk.yellow(`Repository cloned, but failed to set SSH configuration: ${configError}`));
       }
@@ -71,40 +74,32 @@ export class GitWrapper {
     }
   }
 
-  private async cloneWithHTTPS(repoUrl: string, targetDir: string): Promise<void> {
+  private async cloneWithHTTPS(repoUrl: string, targetDir: string, options: GitCloneOptions): Promise<void> {
     const httpsUrl = this.convertToHTTPS(repoUrl);
-    console.log(chalk.blue('🌐 Cloning with HTTPS...'));
-    console.log(chalk.yellow('You will need:'));
-    console.log(chalk.gray('1. Your GitHub/GitLab username'));
-    console.log(chalk.gray('2. A Personal Access Token (NOT your password)'));
-    console.log(chalk.gray('   Get one from: GitHub -> Settings -> Developer Settings -> Personal Access Tokens'));
+    if (!options.quiet) {
+      console.log(chalk.blue('🌐 Cloning with HTTPS...'));
+      console.log(chalk.yellow('You will need:'));
+      console.log(chalk.gray('1. Your GitHub/GitLab username'));
+      console.log(chalk.gray('2. A Personal Access Token (NOT your password)'));
+      console.log(chalk.gray('   Get one from: GitHub -> Settings -> Developer Settings -> Personal Access Tokens'));
+    }
     
     try {
-      execSync(`git clone "${httpsUrl}" "${targetDir}"`, { stdio: 'inherit' });
+      // Quiet clones run in parallel and cannot prompt; they rely on a credential helper
+      await ProcessRunner.run('git', this.cloneArgs(httpsUrl, targetDir, options), options.quiet
+        ? { stdio: 'pipe', env: { GIT_TERMINAL_PROMPT: '0' } }
+        : { stdio: 'inherit' });
     } catch (error: any) {
       throw new Error(`HTTPS clone failed: ${error?.message || 'Unknown error'}`);
     }
   }
 
-  async configureRepo(repoPath: string, sshKeyPath?: string): Promise<void> {
+  async configureRepo(repoPath: string, sshKeyPath?: string, identity?: Identity): Promise<void> {
     try {
       if (sshKeyPath) {
         // Configure SSH for this repository
         const normalizedPath = PathUtils.normalizeForSSH(sshKeyPath);
-        const quotedPath = `\"${normalizedPath}\"`;
-        const sshCommand = [
-          'ssh',
-          '-i', quotedPath,
-          '-F', '/dev/null',
-          '-o', 'IdentitiesOnly=yes',
-          '-o', 'StrictHostKeyChecking=no',
-          '-o', 'UserKnownHostsFile=/dev/null'
-        ].join(' ');
-        
-        // Correct quoting for Windows: double quotes for value, escaped double quotes for path
-        const shellCommand = `git config core.sshCommand "ssh -i \"${normalizedPath}\" -F /dev/null -o IdentitiesOnly=yes -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null"`;
-        const { execSync } = require('child_process');
-        execSync(shellCommand, { cwd: repoPath, stdio: 'pipe' });
+        this.setConfig(repoPath, 'core.sshCommand', this.buildSSHCommand(normalizedPath));
 
         // Also set up local SSH config for this repo
         await this.createLocalSSHConfig(repoPath, sshKeyPath);
@@ -112,42 +107,255 @@ export class GitWrapper {
         console.log(chalk.green(`Repository configured with SSH key: ${path.basename(sshKeyPath)}`));
       } else {
         // Configure for HTTPS (remove any SSH config)
-        try {
-          execSync('git config --unset core.sshCommand', {
-            cwd: repoPath,
-            stdio: 'pipe'
-          });
-        } catch {
-          // Ignore if config doesn't exist
-        }
+        this.unsetConfig(repoPath, 'core.sshCommand');
         
         console.log(chalk.green('Repository configured for HTTPS'));
       }
+
+      if (identity) {
+        this.applyIdentity(repoPath, identity);
+      }
       
     } catch (error) {
       console.warn(chalk.yellow(`Warning: Could not configure repository: ${error}`));
     }
   }
 
+  /**
+   * Set the commit author (and optional signing key) of an identity on a repository
+   */
+  applyIdentity(repoPath: string, identity: Identity): void {
+    this.setConfig(repoPath, 'user.name', identity.userName);
+    this.setConfig(repoPath, 'user.email', identity.userEmail);
+    if (identity.signingKey) {
+      this.setConfig(repoPath, 'user.signingkey', identity.signingKey);
+    }
+
+    console.log(chalk.green(`Commit author set to ${identity.userName} <${identity.userEmail}> (identity: ${identity.name})`));
+  }
+
+  /**
+   * Build the ssh command gitsm stores in core.sshCommand and passes as GIT_SSH_COMMAND
+   */
+  buildSSHCommand(sshKeyPath: string): string {
+    return PathUtils.createSSHCommand(sshKeyPath);
+  }
+
+  getConfig(repoPath: string, key: string): string | null {
+    try {
+      return ProcessRunner.runSync('git', ['config', '--local', '--get', key], { cwd: repoPath }).stdout.trim();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Value git actually uses, including global and system config
+   */
+  getEffectiveConfig(repoPath: string, key: string): string | null {
+    try {
+      return ProcessRunner.runSync('git', ['config', '--get', key], { cwd: repoPath }).stdout.trim();
+    } catch {
+      return null;
+    }
+  }
+
+  setConfig(repoPath: string, key: string, value: string): void {
+    this.rememberConfig(repoPath, key);
+    this.writeConfig(repoPath, key, value);
+  }
+
+  unsetConfig(repoPath: string, key: string): void {
+    this.rememberConfig(repoPath, key);
+    this.writeConfig(repoPath, key, null);
+  }
+
+  /**
+   * What gitsm changed in a repository and the values from before, or null when it has no record
+   */
+  getOriginalState(repoPath: string): RepoOriginalState | null {
+    const statePath = this.originalStatePath(repoPath);
+    return statePath && fs.pathExistsSync(statePath) ? fs.readJsonSync(statePath) : null;
+  }
+
+  /**
+   * Steps that put back the recorded values and delete the generated files, skipping what
+   * already matches. Applying them does not record anything.
+   */
+  planRestore(repoPath: string, state: RepoOriginalState): { description: string; apply: () => Promise<void> }[] {
+    const steps: { description: string; apply: () => Promise<void> }[] = [];
+
+    for (const [key, original] of Object.entries(state.config)) {
+      const current = this.getConfig(repoPath, key);
+      if (current === original) {
+        continue;
+      }
+      steps.push({
+        description: original === null ? `unset ${key}` : `set ${key} back to "${original}"`,
+        apply: async () => this.writeConfig(repoPath, key, original)
+      });
+    }
+
+    if (state.remoteUrl) {
+      const originalUrl = state.remoteUrl;
+      // The origin remote may have been removed or renamed since
+      const current = ProcessRunner.succeeds('git', ['remote', 'get-url', 'origin'], { cwd: repoPath })
+        ? ProcessRunner.runSync('git', ['remote', 'get-url', 'origin'], { cwd: repoPath }).stdout.trim()
+        : null;
+      if (current !== originalUrl) {
+        steps.push({
+          description: current === null ? `add the origin remote ${originalUrl}` : `set the origin URL back to ${originalUrl}`,
+          apply: async () => { await this.writeRemoteUrl(repoPath, originalUrl); }
+        });
+      }
+    }
+
+    const gitDir = this.getGitDir(repoPath);
+    for (const file of state.createdFiles) {
+      const filePath = gitDir && path.join(gitDir, file);
+      if (filePath && fs.pathExistsSync(filePath)) {
+        steps.push({
+          description: `delete ${path.relative(repoPath, filePath)}`,
+          apply: () => this.writeGeneratedFile(repoPath, filePath, null)
+        });
+      }
+    }
+
+    return steps;
+  }
+
+  /**
+   * Forget the record of a repository's original state
+   */
+  async clearOriginalState(repoPath: string): Promise<void> {
+    const statePath = this.originalStatePath(repoPath);
+    if (!statePath) {
+      return;
+    }
+    await fs.remove(statePath);
+    const stateDir = path.dirname(statePath);
+    if (await fs.pathExists(stateDir) && (await fs.readdir(stateDir)).length === 0) {
+      await fs.remove(stateDir);
+    }
+  }
+
+  /**
+   * Write a local git config value (null unsets it). Unlike setConfig, it leaves the record of original
+   * values alone, which is what unmanage and undo need. Every write goes to the change journal.
+   */
+  writeConfig(repoPath: string, key: string, value: string | null): void {
+    const previous = this.getConfig(repoPath, key);
+    if (value === null) {
+      // Exit code 5 just means the key was not set
+      ProcessRunner.succeeds('git', ['config', '--local', '--unset', key], { cwd: repoPath });
+    } else {
+      ProcessRunner.runSync('git', ['config', '--local', key, value], { cwd: repoPath });
+    }
+    ChangeJournal.record({ kind: 'git-config', repoPath: this.journalPath(repoPath), setting: key, oldValue: previous, newValue: value });
+  }
+
+  async writeRemoteUrl(repoPath: string, url: string): Promise<void> {
+    const previous = await this.getRemoteUrl(repoPath);
+    await ProcessRunner.run('git', ['remote', previous === null ? 'add' : 'set-url', 'origin', url], { cwd: repoPath });
+    ChangeJournal.record({ kind: 'remote-url', repoPath: this.journalPath(repoPath), setting: 'origin', oldValue: previous, newValue: url });
+  }
+
+  /**
+   * Write (or, for null, delete) a file gitsm generates in a repository
+   */
+  async writeGeneratedFile(repoPath: string, filePath: string, content: string | null): Promise<void> {
+    const previous = await fs.pathExists(filePath) ? await fs.readFile(filePath, 'utf8') : null;
+    if (content === null) {
+      await fs.remove(filePath);
+      // Drop the directory gitsm made for it, once empty
+      const dir = path.dirname(filePath);
+      if (dir !== this.getGitDir(repoPath) && await fs.pathExists(dir) && (await fs.readdir(dir)).length === 0) {
+        await fs.remove(dir);
+      }
+    } else {
+      await fs.outputFile(filePath, content);
+      // gitsm only generates wrapper scripts
+      if (process.platform !== 'win32') {
+        await fs.chmod(filePath, '755');
+      }
+    }
+    ChangeJournal.record({ kind: 'file', repoPath: this.journalPath(repoPath), setting: filePath, oldValue: previous, newValue: content });
+  }
+
+  /**
+   * Repositories are journaled under their top level, like their config entries
+   */
+  private journalPath(repoPath: string): string {
+    const topLevel = this.getTopLevel(repoPath) || path.resolve(repoPath);
+    try {
+      return fs.realpathSync.native(topLevel);
+    } catch {
+      return topLevel;
+    }
+  }
+
+  /**
+   * Record a value the first time gitsm changes it; later changes keep the first record
+   */
+  private rememberOriginal(repoPath: string, update: (state: RepoOriginalState) => void): void {
+    const statePath = this.originalStatePath(repoPath);
+    if (!statePath) {
+      return;
+    }
+    const state: RepoOriginalState = fs.pathExistsSync(statePath)
+      ? fs.readJsonSync(statePath)
+      : { config: {}, createdFiles: [] };
+    update(state);
+    fs.outputJsonSync(statePath, state, { spaces: 2 });
+  }
+
+  private rememberConfig(repoPath: string, key: string): void {
+    this.rememberOriginal(repoPath, state => {
+      if (!(key in state.config)) {
+        state.config[key] = this.getConfig(repoPath, key);
+      }
+    });
+  }
+
+  private originalStatePath(repoPath: string): string | null {
+    const gitDir = this.getGitDir(repoPath);
+    return gitDir ? path.join(gitDir, 'gitsm', 'original.json') : null;
+  }
+
+  /**
+   * The git directory shared by all worktrees (.git of a normal clone)
+   */
+  private getGitDir(repoPath: string): string | null {
+    try {
+      const gitDir = ProcessRunner.runSync('git', ['rev-parse', '--git-common-dir'], { cwd: repoPath, timeout: 5000 }).stdout.trim();
+      return path.resolve(repoPath, gitDir);
+    } catch {
+      return null;
+    }
+  }
+
   private async createLocalSSHConfig(repoPath: string, sshKeyPath: string): Promise<void> {
-    const fs = require('fs-extra');
-    const configDir = path.join(repoPath, '.git', 'ssh');
-    
+    // The common git dir, where unmanage and undo look for it; in a linked worktree .git is a file
+    const gitDir = this.getGitDir(repoPath);
+    if (!gitDir) {
+      console.warn(chalk.yellow(`Could not create local SSH config: ${repoPath} is not a Git repository`));
+      return;
+    }
+    const configDir = path.join(gitDir, 'ssh');
+
     try {
-      await fs.ensureDir(configDir);
-      
       const configContent = `#!/bin/bash
 # Auto-generated SSH wrapper for this repository
-exec ssh -i "${sshKeyPath}" -F /dev/null -o IdentitiesOnly=yes -o StrictHostKeyChecking=no "$@"
+exec ${PathUtils.createSSHCommand(sshKeyPath)} "$@"
 `;
       
       const wrapperPath = path.join(configDir, 'wrapper.sh');
-      await fs.writeFile(wrapperPath, configContent);
-      
-      // Make executable on Unix-like systems
-      if (process.platform !== 'win32') {
-        await fs.chmod(wrapperPath, '755');
-      }
+      this.rememberOriginal(repoPath, state => {
+        if (!state.createdFiles.includes('ssh/wrapper.sh')) {
+          state.createdFiles.push('ssh/wrapper.sh');
+        }
+      });
+      await this.writeGeneratedFile(repoPath, wrapperPath, configContent);
       
     } catch (error) {
       console.warn(chalk.yellow(`Could not create local SSH config: ${error}`));
@@ -155,38 +363,26 @@ exec ssh -i "${sshKeyPath}" -F /dev/null -o IdentitiesOnly=yes -o StrictHostKeyC
   }
 
   convertToHTTPS(sshUrl: string): string {
-    try {
-      if (sshUrl.startsWith('git@')) {
-        // Convert git@github.com:user/repo.git to https://github.com/user/repo.git
-        const match = sshUrl.match(/git@([^:]+):(.+)/);
-        if (match) {
-          const [, host, repoPath] = match;
-          return `https://${host}/${repoPath}`;
-        }
-      }
-      
-      // If already HTTPS or unknown format, return as-is
-      return sshUrl;
-    } catch (error) {
-      console.warn(chalk.yellow(`Could not convert URL: ${error}`));
-      return sshUrl;
-    }
+    // Local paths and unknown formats are returned as-is
+    const remote = RemoteUrl.tryParse(sshUrl);
+    return remote ? remote.toHTTPS().format() : sshUrl;
   }
 
   extractRepoName(repoUrl: string): string {
-    try {
-      const match = repoUrl.match(/\/([^\/]+?)(?:\.git)?$/);
-      return match ? match[1] : 'repository';
-    } catch (error) {
-      return 'repository';
+    const remote = RemoteUrl.tryParse(repoUrl);
+    if (remote) {
+      return remote.repo;
     }
+
+    // Local paths: /srv/git/repo.git -> repo
+    const match = repoUrl.match(/([^\/\\]+?)(?:\.git)?[\/\\]*$/);
+    return match ? match[1] : 'repository';
   }
 
   isGitRepository(dir: string): boolean {
     try {
-      execSync('git rev-parse --git-dir', { 
+      ProcessRunner.runSync('git', ['rev-parse', '--git-dir'], { 
         cwd: dir, 
-        stdio: 'pipe',
         timeout: 5000
       });
       return true;
@@ -195,14 +391,69 @@ exec ssh -i "${sshKeyPath}" -F /dev/null -o IdentitiesOnly=yes -o StrictHostKeyC
     }
   }
 
+  /**
+   * Top-level directory of the working tree containing dir
+   */
+  getTopLevel(dir: string): string | null {
+    try {
+      return ProcessRunner.runSync('git', ['rev-parse', '--show-toplevel'], { cwd: dir, timeout: 5000 }).stdout.trim();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Find git working trees below rootDir. Does not descend into repositories, dot directories or node_modules.
+   */
+  async findRepositories(rootDir: string, maxDepth: number = 5): Promise<string[]> {
+    const fs = require('fs-extra');
+    const found: string[] = [];
+
+    const walk = async (dir: string, depth: number): Promise<void> => {
+      if (await fs.pathExists(path.join(dir, '.git'))) {
+        found.push(dir);
+        return;
+      }
+      if (depth >= maxDepth) {
+        return;
+      }
+
+      let entries: { name: string; isDirectory(): boolean }[];
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;   // Unreadable directories are skipped
+      }
+      for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          await walk(path.join(dir, entry.name), depth + 1);
+        }
+      }
+    };
+
+    await walk(path.resolve(rootDir), 0);
+    return found.sort();
+  }
+
+  async getRemotes(repoPath: string): Promise<{ name: string; url: string }[]> {
+    try {
+      const result = await ProcessRunner.run('git', ['remote'], { cwd: repoPath });
+      const names = result.stdout.split('\n').map(name => name.trim()).filter(Boolean);
+      return Promise.all(names.map(async name => ({
+        name,
+        url: (await ProcessRunner.run('git', ['remote', 'get-url', name], { cwd: repoPath })).stdout.trim()
+      })));
+    } catch {
+      return [];
+    }
+  }
+
   async getRemoteUrl(repoPath: string): Promise<string | null> {
     try {
-      const result = execSync('git remote get-url origin', {
-        cwd: repoPath,
-        encoding: 'utf8',
-        stdio: 'pipe'
+      const result = await ProcessRunner.run('git', ['remote', 'get-url', 'origin'], {
+        cwd: repoPath
       });
-      return result.trim();
+      return result.stdout.trim();
     } catch {
       return null;
     }
@@ -211,19 +462,13 @@ exec ssh -i "${sshKeyPath}" -F /dev/null -o IdentitiesOnly=yes -o StrictHostKeyC
   async switchToHTTPS(repoPath: string): Promise<void> {
     try {
       const currentUrl = await this.getRemoteUrl(repoPath);
-      if (currentUrl && currentUrl.startsWith('git@')) {
+      if (currentUrl && RemoteUrl.isSSH(currentUrl)) {
         const httpsUrl = this.convertToHTTPS(currentUrl);
         
-        execSync(`git remote set-url origin "${httpsUrl}"`, {
-          cwd: repoPath,
-          stdio: 'pipe'
-        });
+        await this.setRemoteUrl(repoPath, httpsUrl);
         
         // Remove SSH configuration
-        execSync('git config --unset core.sshCommand', {
-          cwd: repoPath,
-          stdio: 'pipe'
-        });
+        this.unsetConfig(repoPath, 'core.sshCommand');
         
         console.log(chalk.green(`Switched to HTTPS: ${httpsUrl}`));
       }
@@ -234,7 +479,13 @@ exec ssh -i "${sshKeyPath}" -F /dev/null -o IdentitiesOnly=yes -o StrictHostKeyC
 
   async setRemoteUrl(repoPath: string, url: string): Promise<void> {
     try {
-      execSync(`git -C "${repoPath}" remote set-url origin "${url}"`, { stdio: 'pipe' });
+      const currentUrl = await this.getRemoteUrl(repoPath);
+      this.rememberOriginal(repoPath, state => {
+        if (state.remoteUrl === undefined && currentUrl) {
+          state.remoteUrl = currentUrl;
+        }
+      });
+      await this.writeRemoteUrl(repoPath, url);
     } catch (error) {
       throw new Error(`Failed to set remote URL: ${error}`);
     }
@@ -0,0 +1,226 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import { KnownHostEntry } from '../types';
+import { PathUtils } from '../utils/path-utils';
+import { ProcessRunner } from '../utils/process-runner';
+import { PromptUtils } from '../utils/prompt-utils';
+import { RemoteUrl } from '../utils/remote-url';
+import { SSHKeyParser } from '../utils/ssh-key-parser';
+import { ChangeJournal } from './change-journal';
+
+// Host keys published by the providers, pinned so the first connection is already verified:
+// https://docs.github.com/en/authentication/keeping-your-account-and-data-secure/githubs-ssh-key-fingerprints
+// https://docs.gitlab.com/ee/user/gitlab_com/#ssh-known_hosts-entries
+// https://support.atlassian.com/bitbucket-cloud/docs/configure-ssh-and-two-step-verification/
+const PINNED_HOST_KEYS = [
+  'github.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIOMqqnkVzrm0SdG6UOoqKLsabgH5C9okWi0dh2l9GKJl',
+  'github.com ecdsa-sha2-nistp256 AAAAE2VjZHNhLXNoYTItbmlzdHAyNTYAAAAIbmlzdHAyNTYAAABBBEmKSENjQEezOmxkZMy7opKgwFB9nkt5YRrYMjNuG5N87uRgg6CLrbo5wAdT/y6v0mKV0U2w0WZ2YB/++Tpockg=',
+  'github.com ssh-rsa AAAAB3NzaC1yc2EAAAADAQABAAABgQCj7ndNxQowgcQnjshcLrqPEiiphnt+VTTvDP6mHBL9j1aNUkY4Ue1gvwnGLVlOhGeYrnZaMgRK6+PKCUXaDbC7qtbW8gIkhL7aGCsOr/C56SJMy/BCZfxd1nWzAOxSDPgVsmerOBYfNqltV9/hWCqBywINIR+5dIg6JTJ72pcEpEjcYgXkE2YEFXV1JHnsKgbLWNlhScqb2UmyRkQyytRLtL+38TGxkxCflmO+5Z8CSSNY7GidjMIZ7Q4zMjA2n1nGrlTDkzwDCsw+wqFPGQA179cnfGWOWRVruj16z6XyvxvjJwbz0wQZ75XK5tKSb7FNyeIEs4TT4jk+S4dhPeAUC5y+bDYirYgM4GC7uEnztnZyaVWQ7B381AK4Qdrwt51ZqExKbQpTUNn+EjqoTwvqNj4kqx5QUCI0ThS/YkOxJCXmPUWZbhjpCg56i+2aB6CmK2JGhn57K5mj0MNdBXA4/WnwH6XoPWJzK5Nyu2zB3nAZp+S5hpQs+p1vN1/wsjk=',
+  'gitlab.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIAfuCHKVTjquxvt6CM6tdG4SLp1Btn/nOeHHE5UOzRdf',
+  'gitlab.com ecdsa-sha2-nistp256 AAAAE2VjZHNhLXNoYTItbmlzdHAyNTYAAAAIbmlzdHAyNTYAAABBBFSMqzJeV9rUzU4kWitGjeR4PWSa29SPqJ1fVkhtj3Hw9xjLVXVYrU9QlYWrOLXBpQ6KWjbjTDTdDkoohFzgbEY=',
+  'gitlab.com ssh-rsa AAAAB3NzaC1yc2EAAAADAQABAAABAQCsj2bNKTBSpIYDEGk9KxsGh3mySTRgMtXL583qmBpzeQ+jqCMRgBqB98u3z++J1sKlXHWfM9dyhSevkMwSbhoR8XIq/U0tCNyokEi/ueaBMCvbcTHhO7FcwzY92WK4Yt0aGROY5qX2UKSeOvuP4D6TPqKF1onrSzH9bx9XUf2lEdWT/ia1NEKjunUqu1xOB/StKDHMoX4/OKyIzuS0q/T1zOATthvasJFoPrAjkohTyaDUz2LN5JoH839hViyEG82yB+MjcFV5MU3N1l1QL3cVUCh93xSaua1N85qivl+siMkPGbO5xR/En4iEY6K2XPASUEMaieWVNTRCtJ4S8H+9',
+  'bitbucket.org ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIIazEu89wgQZ4bqs3d63QSMzYVa0MuJ2e2gKTKqu+UUO',
+  'bitbucket.org ecdsa-sha2-nistp256 AAAAE2VjZHNhLXNoYTItbmlzdHAyNTYAAAAIbmlzdHAyNTYAAABBBPIQmuzMBuKdWeF4+a2sjSSpBK0iqitSQ+5BM9KhpexuGt20JpTVM7u5BDZngncgrqDMbWdxMWWOGtZ9UgbqgZE='
+];
+
+export class HostKeyManager {
+  private knownHostsPath: string;
+  private promptUtils: PromptUtils;
+
+  constructor() {
+    this.knownHostsPath = PathUtils.getKnownHostsPath();
+    this.promptUtils = new PromptUtils();
+  }
+
+  getKnownHostsPath(): string {
+    return this.knownHostsPath;
+  }
+
+  /**
+   * Create the gitsm known_hosts file with the pinned provider keys if it does not exist yet
+   */
+  async ensureKnownHosts(): Promise<void> {
+    if (await fs.pathExists(this.knownHostsPath)) {
+      return;
+    }
+    await fs.ensureDir(path.dirname(this.knownHostsPath));
+    await fs.writeFile(this.knownHostsPath, `${PINNED_HOST_KEYS.join('\n')}\n`, { mode: 0o644 });
+  }
+
+  async list(): Promise<KnownHostEntry[]> {
+    await this.ensureKnownHosts();
+    const content = await fs.readFile(this.knownHostsPath, 'utf8');
+    return content
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .map(line => this.parseLine(line))
+      .filter((entry): entry is KnownHostEntry => entry !== null);
+  }
+
+  async isKnown(host: string, port?: number): Promise<boolean> {
+    const name = this.hostEntryName(host, port);
+    const entries = await this.list();
+    return entries.some(entry => entry.host === name);
+  }
+
+  isPinned(entry: KnownHostEntry): boolean {
+    return PINNED_HOST_KEYS.includes(entry.line);
+  }
+
+  /**
+   * Fetch the keys a host currently presents (unverified - only trust them after confirmation)
+   */
+  async scan(host: string, port?: number): Promise<KnownHostEntry[]> {
+    const args = ['-T', '10'];
+    if (port && port !== 22) {
+      args.push('-p', String(port));
+    }
+    args.push('--', host);
+
+    const result = await ProcessRunner.run('ssh-keyscan', args, { timeout: 20000 });
+    const entries = result.stdout
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .map(line => this.parseLine(line))
+      .filter((entry): entry is KnownHostEntry => entry !== null);
+
+    if (entries.length === 0) {
+      throw new Error(`No host keys received from ${this.hostEntryName(host, port)}`);
+    }
+    return Promise.all(entries.map(entry => this.withFingerprint(entry)));
+  }
+
+  async add(entries: KnownHostEntry[]): Promise<void> {
+    await this.ensureKnownHosts();
+    const existing = await this.list();
+    const lines = entries
+      .filter(entry => !existing.some(known => known.line === entry.line))
+      .map(entry => entry.line);
+    if (lines.length > 0) {
+      await fs.appendFile(this.knownHostsPath, `${lines.join('\n')}\n`);
+      this.journal(existing, await this.list());
+    }
+  }
+
+  async remove(host: string, port?: number): Promise<number> {
+    const name = this.hostEntryName(host, port);
+    const entries = await this.list();
+    const remaining = entries.filter(entry => entry.host !== name);
+    const removed = entries.length - remaining.length;
+    if (removed > 0) {
+      await fs.writeFile(this.knownHostsPath, remaining.map(entry => `${entry.line}\n`).join(''));
+      this.journal(entries, remaining);
+    }
+    return removed;
+  }
+
+  /**
+   * known_hosts lines of one host entry name (host or [host]:port)
+   */
+  async getHostLines(name: string): Promise<string[]> {
+    return (await this.list()).filter(entry => entry.host === name).map(entry => entry.line);
+  }
+
+  /**
+   * Replace the keys of one host entry name; used to undo changes
+   */
+  async setHostLines(name: string, lines: string[]): Promise<void> {
+    const entries = await this.list();
+    const others = entries.filter(entry => entry.host !== name).map(entry => entry.line);
+    const updated = [...others, ...lines];
+    await fs.writeFile(this.knownHostsPath, updated.map(line => `${line}\n`).join(''));
+    this.journal(entries, await this.list());
+  }
+
+  /**
+   * One journal change per host whose keys changed
+   */
+  private journal(before: KnownHostEntry[], after: KnownHostEntry[]): void {
+    const linesOf = (entries: KnownHostEntry[], host: string) => entries.filter(entry => entry.host === host).map(entry => entry.line);
+    for (const host of new Set([...before, ...after].map(entry => entry.host))) {
+      const oldLines = linesOf(before, host);
+      const newLines = linesOf(after, host);
+      ChangeJournal.record({
+        kind: 'known-host',
+        repoPath: null,
+        setting: host,
+        oldValue: oldLines.length > 0 ? oldLines : null,
+        newValue: newLines.length > 0 ? newLines : null
+      });
+    }
+  }
+
+  /**
+   * Make sure a host is in the gitsm known_hosts file.
+   * Unknown hosts are scanned and added only after the user confirms the fingerprints (trust on first use).
+   */
+  async ensureTrusted(host: string, port?: number): Promise<boolean> {
+    if (await this.isKnown(host, port)) {
+      return true;
+    }
+
+    const name = this.hostEntryName(host, port);
+    console.log(chalk.yellow(`\n⚠️  ${name} is not in the gitsm known hosts file yet.`));
+
+    let scanned: KnownHostEntry[];
+    try {
+      scanned = await this.scan(host, port);
+    } catch (error) {
+      console.log(chalk.red(`Could not fetch host keys for ${name}: ${error instanceof Error ? error.message : error}`));
+      return false;
+    }
+
+    console.log(chalk.blue('The host presented these keys:'));
+    scanned.forEach(entry => console.log(chalk.gray(`   ${entry.keyType.padEnd(20)} ${entry.fingerprint}`)));
+    console.log(chalk.gray('Compare them with the fingerprints published by your Git provider before trusting them.'));
+
+    // Defaults to no, so --yes never trusts a host key nobody looked at
+    const trust = await this.promptUtils.confirmAction(`Trust ${name} and remember its keys?`, false);
+    if (!trust) {
+      console.log(chalk.gray(`Review and trust the host with "gitsm hosts add ${name}".`));
+      return false;
+    }
+
+    await this.add(scanned);
+    console.log(chalk.green(`✅ Added ${name} to ${PathUtils.toRelativeSSHPath(this.knownHostsPath)}`));
+    return true;
+  }
+
+  /**
+   * ensureTrusted() for the host of a repository URL; HTTPS URLs need no host key
+   */
+  async ensureTrustedForUrl(repoUrl: string): Promise<boolean> {
+    const remote = RemoteUrl.parse(repoUrl);
+    if (!remote.isSSH) {
+      return true;
+    }
+    return this.ensureTrusted(remote.host, remote.port);
+  }
+
+  async fingerprint(entry: KnownHostEntry): Promise<string> {
+    try {
+      return SSHKeyParser.parsePublicKey(`${entry.keyType} ${entry.key}`).fingerprint;
+    } catch {
+      return 'Unknown';
+    }
+  }
+
+  async withFingerprint(entry: KnownHostEntry): Promise<KnownHostEntry> {
+    return { ...entry, fingerprint: await this.fingerprint(entry) };
+  }
+
+  hostEntryName(host: string, port?: number): string {
+    return port && port !== 22 ? `[${host}]:${port}` : host;
+  }
+
+  private parseLine(line: string): KnownHostEntry | null {
+    const [host, keyType, key] = line.split(/\s+/);
+    if (!host || !keyType || !key) {
+      return null;
+    }
+    return { host, keyType, key, line: `${host} ${keyType} ${key}` };
+  }
+}
@@ -0,0 +1,178 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import { KeyPolicy, KeyPolicyFinding, KeyAuditReport, SSHKey } from '../types';
+import { RepoConfigManager } from './repo-config';
+import { SSHManager } from './ssh-manager';
+
+export const DEFAULT_KEY_POLICY: KeyPolicy = {
+  minRsaBits: 3072,
+  allowDsa: false,
+  requirePassphrase: false,
+  maxKeyAgeDays: null,
+  enforce: 'warn'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class KeyPolicyManager {
+  private configManager: RepoConfigManager;
+  private sshManager: SSHManager;
+
+  constructor() {
+    this.configManager = new RepoConfigManager();
+    this.sshManager = new SSHManager();
+  }
+
+  async getPolicy(): Promise<KeyPolicy> {
+    const config = await this.configManager.loadConfig();
+    return { ...DEFAULT_KEY_POLICY, ...config.policy };
+  }
+
+  async setPolicy(changes: Partial<KeyPolicy>): Promise<KeyPolicy> {
+    if (changes.minRsaBits !== undefined && (!Number.isInteger(changes.minRsaBits) || changes.minRsaBits < 1024)) {
+      throw new Error(`Invalid minimum RSA size: ${changes.minRsaBits} (use a bit count of at least 1024)`);
+    }
+    if (changes.maxKeyAgeDays !== undefined && changes.maxKeyAgeDays !== null &&
+        (!Number.isInteger(changes.maxKeyAgeDays) || changes.maxKeyAgeDays < 1)) {
+      throw new Error(`Invalid maximum key age: ${changes.maxKeyAgeDays} (use a number of days, or "off")`);
+    }
+    if (changes.enforce !== undefined && changes.enforce !== 'warn' && changes.enforce !== 'refuse') {
+      throw new Error(`Invalid enforcement: ${changes.enforce} (use warn or refuse)`);
+    }
+
+    return this.configManager.updateConfig(config => {
+      config.policy = { ...config.policy, ...changes };
+      return { ...DEFAULT_KEY_POLICY, ...config.policy };
+    });
+  }
+
+  describePolicy(policy: KeyPolicy): string {
+    return [
+      `RSA >= ${policy.minRsaBits} bits`,
+      policy.allowDsa ? 'DSA allowed' : 'no DSA',
+      policy.requirePassphrase ? 'passphrase required' : 'passphrase recommended',
+      policy.maxKeyAgeDays ? `max age ${policy.maxKeyAgeDays} days` : 'no max age',
+      `enforce: ${policy.enforce}`
+    ].join(', ');
+  }
+
+  /**
+   * Policy findings for one key, leaving out whether it is used
+   */
+  async check(key: SSHKey, policy: KeyPolicy): Promise<KeyPolicyFinding[]> {
+    const findings: KeyPolicyFinding[] = [];
+
+    if (key.type === 'dsa' && !policy.allowDsa) {
+      findings.push({ check: 'dsa', severity: 'error', message: 'DSA keys are deprecated and disabled in current OpenSSH' });
+    }
+    if (key.type === 'rsa' && key.bits && key.bits < policy.minRsaBits) {
+      findings.push({ check: 'rsa-size', severity: 'error', message: `RSA key has ${key.bits} bits; policy requires at least ${policy.minRsaBits}` });
+    }
+    // Security keys need the hardware token, which protects them like a passphrase
+    if (!key.encrypted && !key.type.startsWith('sk-')) {
+      findings.push({
+        check: 'passphrase',
+        severity: policy.requirePassphrase ? 'error' : 'warning',
+        message: 'Private key is not protected by a passphrase'
+      });
+    }
+
+    const { secure, mode } = await this.sshManager.checkKeyPermissions(key.path);
+    if (!secure) {
+      findings.push({ check: 'permissions', severity: 'error', message: `Private key is readable by others (mode ${mode}, expected 600)` });
+    }
+
+    const ageDays = await this.keyAgeDays(key.path);
+    if (policy.maxKeyAgeDays && ageDays > policy.maxKeyAgeDays) {
+      findings.push({ check: 'age', severity: 'error', message: `Key is ${ageDays} days old; policy allows ${policy.maxKeyAgeDays}` });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Audit every key in ~/.ssh and every key gitsm is configured with elsewhere.
+   * Permissions are reported as found; nothing is fixed.
+   */
+  async audit(): Promise<KeyAuditReport[]> {
+    const policy = await this.getPolicy();
+    const config = await this.configManager.loadConfig();
+
+    const usage = new Map<string, string[]>();
+    const addUse = (keyPath: string | undefined, user: string) => {
+      if (keyPath) {
+        usage.set(keyPath, [...(usage.get(keyPath) || []), user]);
+      }
+    };
+    Object.values(config.repositories).forEach(repo => addUse(repo.sshKeyPath, repo.repoPath));
+    Object.values(config.identities || {}).forEach(identity => addUse(identity.sshKeyPath, `identity:${identity.name}`));
+    (config.rules || []).forEach(rule => addUse(rule.sshKeyPath, `rule:${rule.pattern}`));
+
+    const sshDir = this.sshManager.getSSHDirectory();
+    const keyPaths = new Set((await this.sshManager.listKeyFiles()).map(file => path.join(sshDir, file)));
+    for (const keyPath of usage.keys()) {
+      if (await fs.pathExists(keyPath)) {
+        keyPaths.add(keyPath);
+      }
+    }
+
+    const reports: KeyAuditReport[] = [];
+    for (const keyPath of [...keyPaths].sort()) {
+      let key: SSHKey;
+      try {
+        key = await this.sshManager.describeKey(keyPath);
+      } catch {
+        continue;   // Not a private key (e.g. a stray file in ~/.ssh)
+      }
+
+      const usedBy = usage.get(keyPath) || [];
+      const findings = await this.check(key, policy);
+      if (usedBy.length === 0) {
+        findings.push({ check: 'unused', severity: 'warning', message: 'No configured repository, identity or rule uses this key' });
+      }
+      reports.push({
+        name: key.name,
+        path: key.path,
+        relativePath: key.relativePath,
+        type: key.type,
+        bits: key.bits ?? null,
+        ageDays: await this.keyAgeDays(keyPath),
+        usedBy,
+        findings
+      });
+    }
+    return reports;
+  }
+
+  /**
+   * Gate for clone and convert: print the key's policy violations and return false when the policy refuses it
+   */
+  async enforce(key: SSHKey): Promise<boolean> {
+    const policy = await this.getPolicy();
+    // Warnings (such as a missing passphrase that is only recommended) are left to "key audit"
+    const violations = (await this.check(key, policy)).filter(finding => finding.severity === 'error');
+    if (violations.length === 0) {
+      return true;
+    }
+
+    const refused = policy.enforce === 'refuse';
+    console.log(chalk.yellow(`\n⚠️  ${key.relativePath} does not meet the key policy:`));
+    violations.forEach(finding => console.log(chalk.red(`   ✕ ${finding.message}`)));
+    if (refused) {
+      console.log(chalk.red('The key policy refuses this key. Pick another key, or run "gitsm key audit" for details.'));
+    } else {
+      console.log(chalk.gray('Run "gitsm key audit" to review all keys.'));
+    }
+    return !refused;
+  }
+
+  /**
+   * Days since the key file was created (or last written, where the file system has no birth time)
+   */
+  private async keyAgeDays(keyPath: string): Promise<number> {
+    const stats = await fs.stat(keyPath);
+    const created = stats.birthtimeMs > 0 ? stats.birthtimeMs : stats.mtimeMs;
+    return Math.floor((Date.now() - created) / DAY_MS);
+  }
+}
@@ -1,6 +1,18 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { RepoConfig, GSMConfig } from '../types';
+import { RepoConfig, GSMConfig, Identity, KeyAccount, SSHTestResult } from '../types';
+import chalk from 'chalk';
+import { PathUtils } from '../utils/path-utils';
+import { ProcessRunner } from '../utils/process-runner';
+import { ConfigSchema, ConfigValidationError, CURRENT_CONFIG_VERSION, RawConfig } from '../utils/config-schema';
+import { AtomicFile } from '../utils/atomic-file';
+import { RemoteUrl } from '../utils/remote-url';
+import { ChangeJournal } from './change-journal';
+
+export interface RepoIdentity {
+  repoPath: string;
+  gitCommonDir?: string;
+}
 
 export class RepoConfigManager {
   private configPath: string;
@@ -14,36 +26,415 @@ export class RepoConfigManager {
     await fs.ensureDir(path.dirname(this.configPath));
   }
 
+  getConfigPath(): string {
+    return this.configPath;
+  }
+
+  /**
+   * Load, migrate and validate the config. Creating or migrating the file writes it,
+   * so that goes through updateConfig like any other change.
+   */
   async loadConfig(): Promise<GSMConfig> {
     await this.ensureConfigDir();
-    
-    if (await fs.pathExists(this.configPath)) {
-      return await fs.readJson(this.configPath);
+    const { config, exists, migratedFrom } = await this.readConfig();
+    if (!exists || migratedFrom !== null) {
+      return this.updateConfig(current => current);
+    }
+    return config;
+  }
+
+  /**
+   * Read-modify-write under the config lock, so parallel gitsm runs never drop each
+   * other's changes. The file is replaced atomically after mutate returns, and only if
+   * the result still passes the schema checks.
+   */
+  async updateConfig<T>(mutate: (config: GSMConfig) => T | Promise<T>): Promise<T> {
+    await this.ensureConfigDir();
+    return AtomicFile.withLock(this.configPath, async () => {
+      const { config, migratedFrom } = await this.readConfig();
+      if (migratedFrom !== null) {
+        const backupPath = `${this.configPath}.v${migratedFrom}.bak`;
+        await fs.copy(this.configPath, backupPath);
+        console.warn(chalk.gray(`Migrated ${PathUtils.toRelativeSSHPath(this.configPath)} to version ${CURRENT_CONFIG_VERSION} (previous file: ${PathUtils.toRelativeSSHPath(backupPath)})`));
+      }
+
+      const before = JSON.parse(JSON.stringify(config));
+      const result = await mutate(config);
+      const after: RawConfig = JSON.parse(JSON.stringify(config));
+      const issues = ConfigSchema.check(after);
+      if (issues.length > 0) {
+        throw new Error(`Not saving an invalid config:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+      }
+      await AtomicFile.write(this.configPath, `${JSON.stringify(after, null, 2)}\n`);
+      this.journalChanges(before, after);
+      return result;
+    });
+  }
+
+  /**
+   * Value at a journal location such as repositories["/src/app"] or policy; null when absent
+   */
+  async getSetting(location: string): Promise<unknown> {
+    const { section, key } = this.parseLocation(location);
+    const config: RawConfig = JSON.parse(JSON.stringify(await this.loadConfig()));
+    return this.journalValue(section, key === undefined ? config[section] : this.entry(config[section], key));
+  }
+
+  /**
+   * Put back a value from the journal (null removes it)
+   */
+  async restoreSetting(location: string, value: unknown): Promise<void> {
+    const { section, key } = this.parseLocation(location);
+    // The journal holds the values as they were in the file; updateConfig refuses to save them if they no longer validate
+    await this.updateConfig(config => {
+      if (key === undefined) {
+        if (value === null) {
+          Reflect.deleteProperty(config, section);
+        } else {
+          Reflect.set(config, section, value);
+        }
+        return;
+      }
+      const current: unknown = Reflect.get(config, section);
+      const entries: RawConfig = ConfigSchema.isObject(current) ? current : {};
+      if (value === null) {
+        delete entries[key];
+      } else {
+        entries[key] = value;
+      }
+      Reflect.set(config, section, entries);
+    });
+  }
+
+  /**
+   * Journal what a config update changed: one change per repository and identity, one per other setting
+   */
+  private journalChanges(before: RawConfig, after: RawConfig): void {
+    for (const section of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (section === 'accounts') {
+        continue;   // A cache of "whoami" results, not a setting
+      }
+      if (section !== 'repositories' && section !== 'identities') {
+        ChangeJournal.record({ kind: 'gitsm-config', repoPath: null, setting: section, oldValue: before[section] ?? null, newValue: after[section] ?? null });
+        continue;
+      }
+      const keys = new Set([before[section], after[section]].flatMap(entries => ConfigSchema.isObject(entries) ? Object.keys(entries) : []));
+      for (const key of keys) {
+        ChangeJournal.record({
+          kind: 'gitsm-config',
+          repoPath: section === 'repositories' ? key : null,
+          setting: `${section}[${JSON.stringify(key)}]`,
+          oldValue: this.journalValue(section, this.entry(before[section], key)),
+          newValue: this.journalValue(section, this.entry(after[section], key))
+        });
+      }
+    }
+  }
+
+  /**
+   * Test results change on every test, so repository entries are journaled without them
+   */
+  private journalValue(section: string, value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return null;
     }
+    if (section === 'repositories' && ConfigSchema.isObject(value)) {
+      const { lastTest, ...entry } = value;
+      return entry;
+    }
+    return value;
+  }
+
+  /**
+   * One entry of a section such as repositories or identities
+   */
+  private entry(entries: unknown, key: string): unknown {
+    return ConfigSchema.isObject(entries) ? entries[key] : undefined;
+  }
+
+  private parseLocation(location: string): { section: string; key?: string } {
+    const match = location.match(/^(\w+)(?:\[(".*")\])?$/);
+    if (!match) {
+      throw new Error(`Invalid config location: ${location}`);
+    }
+    return { section: match[1], key: match[2] === undefined ? undefined : JSON.parse(match[2]) };
+  }
 
-    const defaultConfig: GSMConfig = {
-      repositories: {},
-      defaultSSHPath: path.join(process.env.HOME || '', '.ssh')
+  /**
+   * The validated config, or the default one when there is no file yet.
+   * migratedFrom is the file's version when it had to be migrated.
+   */
+  private async readConfig(): Promise<{ config: GSMConfig; exists: boolean; migratedFrom: number | null }> {
+    if (!await fs.pathExists(this.configPath)) {
+      const defaultConfig: GSMConfig = {
+        version: CURRENT_CONFIG_VERSION,
+        repositories: {},
+        defaultSSHPath: path.join(process.env.HOME || '', '.ssh')
+      };
+      return { config: defaultConfig, exists: false, migratedFrom: null };
+    }
+
+    const raw = await this.readRawConfig();
+    const { config, version, applied } = ConfigSchema.migrate(raw, this.configPath);
+    return {
+      config: ConfigSchema.validate(config, this.configPath),
+      exists: true,
+      migratedFrom: applied.length > 0 ? version : null
     };
+  }
 
-    await this.saveConfig(defaultConfig);
-    return defaultConfig;
+  /**
+   * Check the config file without changing it: pending migrations and every validation problem
+   */
+  async inspectConfig(): Promise<{ exists: boolean; version: number | null; migrations: string[]; issues: string[] }> {
+    if (!await fs.pathExists(this.configPath)) {
+      return { exists: false, version: null, migrations: [], issues: [] };
+    }
+    try {
+      const raw = await this.readRawConfig();
+      const { config, version, applied } = ConfigSchema.migrate(raw, this.configPath);
+      return { exists: true, version, migrations: applied, issues: ConfigSchema.check(config) };
+    } catch (error) {
+      const issues = error instanceof ConfigValidationError
+        ? error.issues
+        : [error instanceof Error ? error.message : String(error)];
+      return { exists: true, version: null, migrations: [], issues };
+    }
   }
 
-  async saveConfig(config: GSMConfig): Promise<void> {
-    await this.ensureConfigDir();
-    await fs.writeJson(this.configPath, config, { spaces: 2 });
+  private async readRawConfig(): Promise<RawConfig> {
+    const content = await fs.readFile(this.configPath, 'utf8');
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      throw new ConfigValidationError(this.configPath, [`not valid JSON (${error instanceof Error ? error.message : error})`]);
+    }
+    if (!ConfigSchema.isObject(raw)) {
+      throw new ConfigValidationError(this.configPath, ['config: expected a JSON object']);
+    }
+    return raw;
   }
 
-  async setRepoConfig(repoPath: string, sshKeyPath: string, remoteUrl: string): Promise<void> {
+  /**
+   * Canonical identity of the repository containing dir: the real path of its top level, so
+   * relative paths, subdirectories and symlinks all lead to the same config entry
+   */
+  resolveRepo(dir: string): RepoIdentity {
+    const resolved = path.resolve(dir);
+    try {
+      const [topLevel, commonDir] = ProcessRunner.runSync('git', ['rev-parse', '--show-toplevel', '--git-common-dir'], {
+        cwd: resolved,
+        timeout: 5000
+      }).stdout.trim().split('\n');
+      return {
+        repoPath: this.realPath(topLevel),
+        gitCommonDir: this.realPath(path.resolve(resolved, commonDir))
+      };
+    } catch {
+      return { repoPath: this.realPath(resolved) };   // Not (or no longer) a repository
+    }
+  }
+
+  /**
+   * Config of the repository containing dir. An entry stored under another spelling of the
+   * path is re-keyed, and a single orphaned entry (its directory is gone) with the same remote
+   * is relinked to dir, so moved repositories keep their configuration.
+   */
+  async findRepo(dir: string): Promise<RepoConfig | null> {
+    const identity = this.resolveRepo(dir);
     const config = await this.loadConfig();
-    config.repositories[repoPath] = {
-      repoPath,
-      sshKeyPath,
-      remoteUrl,
-      createdAt: new Date()
-    };
-    await this.saveConfig(config);
+    const entries = Object.values(config.repositories);
+
+    if (config.repositories[identity.repoPath]) {
+      return config.repositories[identity.repoPath];
+    }
+
+    const alias = entries.find(repo => fs.pathExistsSync(repo.repoPath) && this.realPath(repo.repoPath) === identity.repoPath);
+    if (alias) {
+      return this.moveRepo(alias.repoPath, identity);
+    }
+
+    // A linked worktree uses the configuration of the repository it belongs to
+    const worktreeOf = identity.gitCommonDir && entries.find(repo => repo.gitCommonDir === identity.gitCommonDir);
+    if (worktreeOf) {
+      return worktreeOf;
+    }
+
+    const remote = RemoteUrl.tryParse(this.getOriginUrl(identity.repoPath) || '');
+    if (!remote) {
+      return null;
+    }
+    const orphans = entries.filter(repo =>
+      !fs.pathExistsSync(repo.repoPath) && RemoteUrl.tryParse(repo.remoteUrl)?.sameRepository(remote));
+    if (orphans.length !== 1) {
+      return null;   // Several moved clones of one remote are left to "gitsm repos relocate"
+    }
+    console.warn(chalk.gray(`Relinked ${orphans[0].repoPath} to ${identity.repoPath} (same remote, old directory is gone)`));
+    return this.moveRepo(orphans[0].repoPath, identity);
+  }
+
+  /**
+   * Move the entry of a repository that was moved on disk. from is matched as stored, resolved or
+   * as a real path; to must be a git repository without an entry of its own.
+   */
+  async relocate(from: string, to: string): Promise<{ from: string; repo: RepoConfig }> {
+    const target = this.resolveRepo(to);
+    if (!target.gitCommonDir) {
+      throw new Error(`Not a git repository: ${to}`);
+    }
+
+    const config = await this.loadConfig();
+    const candidates = new Set([from, path.resolve(from), this.realPath(path.resolve(from))]);
+    const source = Object.keys(config.repositories).find(repoPath => candidates.has(repoPath));
+    if (!source) {
+      throw new Error(`No configured repository at ${from}. Run "gitsm list repos" to see configured repositories.`);
+    }
+    if (source === target.repoPath) {
+      throw new Error(`${from} is already configured at ${target.repoPath}`);
+    }
+    if (config.repositories[target.repoPath]) {
+      throw new Error(`${target.repoPath} already has its own entry. Remove the old one with "gitsm repos prune" instead.`);
+    }
+
+    const repo = await this.moveRepo(source, target);
+    if (!repo) {
+      throw new Error(`No configured repository at ${from}`);
+    }
+    return { from: source, repo };
+  }
+
+  /**
+   * Entries whose directory no longer holds a git repository
+   */
+  async findMissingRepos(): Promise<RepoConfig[]> {
+    const config = await this.loadConfig();
+    return Object.values(config.repositories).filter(repo => !fs.pathExistsSync(path.join(repo.repoPath, '.git')));
+  }
+
+  async removeRepos(repoPaths: string[]): Promise<void> {
+    await this.updateConfig(config => {
+      repoPaths.forEach(repoPath => delete config.repositories[repoPath]);
+    });
+  }
+
+  async setRepoConfig(repoPath: string, sshKeyPath: string, remoteUrl: string, identity?: string): Promise<void> {
+    const { repoPath: canonicalPath, gitCommonDir } = this.resolveRepo(repoPath);
+    await this.updateConfig(config => {
+      // Replace an entry stored under the path as given by an older gitsm
+      delete config.repositories[repoPath];
+      config.repositories[canonicalPath] = {
+        repoPath: canonicalPath,
+        gitCommonDir,
+        sshKeyPath,
+        remoteUrl,
+        identity,
+        createdAt: new Date()
+      };
+    });
+  }
+
+  /**
+   * Remember the outcome of the latest access test of a managed repository
+   */
+  async recordTestResult(repoPath: string, result: SSHTestResult): Promise<void> {
+    const { repoPath: canonicalPath } = this.resolveRepo(repoPath);
+    await this.updateConfig(config => {
+      const repo = config.repositories[canonicalPath] || config.repositories[repoPath];
+      if (repo) {
+        repo.lastTest = {
+          success: result.success,
+          account: result.account,
+          error: result.success ? undefined : result.error,
+          checkedAt: new Date()
+        };
+      }
+    });
+  }
+
+  async getIdentities(): Promise<Identity[]> {
+    const config = await this.loadConfig();
+    return Object.values(config.identities || {});
+  }
+
+  async getIdentity(name: string): Promise<Identity> {
+    const config = await this.loadConfig();
+    const identity = config.identities?.[name];
+    if (!identity) {
+      throw new Error(`Identity '${name}' not found. Run "gitsm identity list" to see configured identities.`);
+    }
+    return identity;
+  }
+
+  async setIdentity(identity: Identity): Promise<void> {
+    await this.updateConfig(config => {
+      config.identities = { ...config.identities, [identity.name]: identity };
+    });
+  }
+
+  async removeIdentity(name: string): Promise<boolean> {
+    return this.updateConfig(config => {
+      if (!config.identities?.[name]) {
+        return false;
+      }
+      delete config.identities[name];
+      return true;
+    });
+  }
+
+  async getKeyAccounts(): Promise<Record<string, Record<string, KeyAccount>>> {
+    const config = await this.loadConfig();
+    return config.accounts || {};
+  }
+
+  /**
+   * Cache the account each key authenticated as, per host (undefined clears the entry)
+   */
+  async setKeyAccounts(entries: { keyPath: string; host: string; account?: string }[]): Promise<void> {
+    await this.updateConfig(config => {
+      const accounts = config.accounts || {};
+
+      for (const { keyPath, host, account } of entries) {
+        const hosts = accounts[keyPath] || {};
+        if (account) {
+          hosts[host] = { account, checkedAt: new Date() };
+        } else {
+          delete hosts[host];
+        }
+        accounts[keyPath] = hosts;
+      }
+
+      config.accounts = accounts;
+    });
+  }
+
+  private async moveRepo(from: string, to: RepoIdentity): Promise<RepoConfig | null> {
+    return this.updateConfig(config => {
+      const repo = config.repositories[from];
+      if (!repo) {
+        return null;
+      }
+      delete config.repositories[from];
+      const moved: RepoConfig = { ...repo, repoPath: to.repoPath, gitCommonDir: to.gitCommonDir };
+      config.repositories[to.repoPath] = moved;
+      return moved;
+    });
+  }
+
+  private getOriginUrl(repoPath: string): string | null {
+    try {
+      return ProcessRunner.runSync('git', ['remote', 'get-url', 'origin'], { cwd: repoPath, timeout: 5000 }).stdout.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private realPath(filePath: string): string {
+    try {
+      return fs.realpathSync.native(filePath);
+    } catch {
+      return filePath;
+    }
   }
 
   private async setupRepoGitConfig(repoPath: string, sshKeyPath: string): Promise<void> {
@@ -58,8 +449,7 @@ export class RepoConfigManager {
       const wrapperScript = await this.createGitWrapper(repoPath, sshKeyPath);
       
       // Set git config to use our wrapper
-      const { execSync } = require('child_process');
-      execSync(`git config core.sshCommand "ssh -i ${sshKeyPath} -F /dev/null -o IdentitiesOnly=yes"`, {
+      ProcessRunner.runSync('git', ['config', 'core.sshCommand', PathUtils.createSSHCommand(sshKeyPath)], {
         cwd: repoPath
       });
     }
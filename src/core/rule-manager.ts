@@ -0,0 +1,102 @@
+import { KeyRule } from '../types';
+import { RepoConfigManager } from './repo-config';
+import { SSHManager } from './ssh-manager';
+
+export class RuleManager {
+  private configManager: RepoConfigManager;
+  private sshManager: SSHManager;
+
+  constructor() {
+    this.configManager = new RepoConfigManager();
+    this.sshManager = new SSHManager();
+  }
+
+  async getRules(): Promise<KeyRule[]> {
+    const config = await this.configManager.loadConfig();
+    return config.rules || [];
+  }
+
+  async addRule(rule: KeyRule): Promise<void> {
+    this.parsePattern(rule.pattern);
+
+    await this.configManager.updateConfig(config => {
+      const rules = (config.rules || []).filter(existing => existing.pattern !== rule.pattern);
+      rules.push(rule);
+      config.rules = rules;
+    });
+  }
+
+  async removeRule(pattern: string): Promise<boolean> {
+    return this.configManager.updateConfig(config => {
+      const rules = config.rules || [];
+      const remaining = rules.filter(rule => rule.pattern !== pattern);
+      if (remaining.length === rules.length) {
+        return false;
+      }
+      config.rules = remaining;
+      return true;
+    });
+  }
+
+  /**
+   * Point every rule that uses one key at another, keeping the rules in their configured order
+   */
+  async replaceKey(oldKeyPath: string, newKeyPath: string): Promise<number> {
+    return this.configManager.updateConfig(config => {
+      let replaced = 0;
+      for (const rule of config.rules || []) {
+        if (rule.sshKeyPath === oldKeyPath) {
+          rule.sshKeyPath = newKeyPath;
+          replaced++;
+        }
+      }
+      return replaced;
+    });
+  }
+
+  /**
+   * Find the first rule (in configured order) that matches a repository URL
+   */
+  async findMatch(repoUrl: string): Promise<KeyRule | null> {
+    let info: { host: string; owner: string; repo: string };
+    try {
+      info = this.sshManager.extractRepoInfo(repoUrl);
+    } catch {
+      return null;
+    }
+
+    const rules = await this.getRules();
+    return rules.find(rule => this.matches(rule.pattern, info)) || null;
+  }
+
+  matches(pattern: string, info: { host: string; owner: string; repo: string }): boolean {
+    const { host, path } = this.parsePattern(pattern);
+    if (!this.globToRegExp(host).test(info.host)) {
+      return false;
+    }
+
+    // "acme" matches the owner only, "acme/*" or "acme/api-*" match owner/repo
+    const target = path.includes('/') ? `${info.owner}/${info.repo}` : info.owner;
+    return path === '*' || this.globToRegExp(path).test(target);
+  }
+
+  private parsePattern(pattern: string): { host: string; path: string } {
+    const separator = pattern.indexOf(':');
+    const host = separator === -1 ? pattern : pattern.substring(0, separator);
+    const path = separator === -1 ? '*' : pattern.substring(separator + 1);
+
+    if (!host.trim() || !path.trim()) {
+      throw new Error(`Invalid rule pattern: ${pattern} (expected host:owner/repo, e.g. github.com:acme/*)`);
+    }
+
+    return { host: host.trim(), path: path.trim() };
+  }
+
+  private globToRegExp(glob: string): RegExp {
+    const escaped = glob
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${escaped}$`, 'i');
+  }
+}
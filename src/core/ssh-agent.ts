@@ -0,0 +1,90 @@
+import chalk from 'chalk';
+import { SSHKey } from '../types';
+import { PathUtils } from '../utils/path-utils';
+import { ProcessRunner, ProcessError } from '../utils/process-runner';
+import { PromptUtils } from '../utils/prompt-utils';
+
+export class SSHAgent {
+  private promptUtils: PromptUtils;
+
+  constructor() {
+    this.promptUtils = new PromptUtils();
+  }
+
+  /**
+   * Whether an agent socket is configured; ssh-add reports later if nothing listens on it
+   */
+  isRunning(): boolean {
+    return !!process.env.SSH_AUTH_SOCK;
+  }
+
+  /**
+   * SHA256 fingerprints of the keys loaded in the agent (empty when no agent is reachable)
+   */
+  async loadedFingerprints(): Promise<Set<string>> {
+    if (!this.isRunning()) {
+      return new Set();
+    }
+    try {
+      const result = await ProcessRunner.run('ssh-add', ['-l', '-E', 'sha256'], { timeout: 5000 });
+      // "256 SHA256:abc... comment (ED25519)"
+      return new Set(result.stdout.split('\n').map(line => line.trim().split(/\s+/)[1]).filter(Boolean));
+    } catch {
+      // Exit code 1: the agent has no keys, 2: no agent is listening
+      return new Set();
+    }
+  }
+
+  /**
+   * Load a key into the agent. ssh-add asks for the passphrase on the terminal.
+   * Lifetime uses ssh-add's format: seconds, or a number with s, m, h, d or w.
+   */
+  async add(keyPath: string, lifetime?: string): Promise<void> {
+    const args = lifetime ? ['-t', lifetime] : [];
+    try {
+      await ProcessRunner.run('ssh-add', [...args, '--', PathUtils.normalizeForSSH(keyPath)], { stdio: 'inherit' });
+    } catch (error) {
+      const reason = error instanceof ProcessError && error.exitCode === 2
+        ? 'could not connect to ssh-agent'
+        : 'wrong passphrase or unreadable key';
+      throw new Error(`ssh-add failed: ${reason}`);
+    }
+  }
+
+  /**
+   * Make sure an encrypted key can be used without a passphrase prompt.
+   * Keys that are not encrypted or already loaded pass; otherwise the user is offered ssh-add.
+   */
+  async ensureLoaded(key: SSHKey): Promise<boolean> {
+    if (!key.encrypted || key.loadedInAgent) {
+      return true;
+    }
+
+    console.log(chalk.yellow(`\n🔒 ${key.relativePath} is protected by a passphrase and not loaded in ssh-agent.`));
+    if (!this.isRunning()) {
+      console.log(chalk.gray('Start an agent first, e.g. eval "$(ssh-agent -s)", then run gitsm again.'));
+      return false;
+    }
+    if (!PromptUtils.isInteractive()) {
+      console.log(chalk.gray(`Load it before running gitsm: ssh-add ${key.relativePath}`));
+      return false;
+    }
+
+    const load = await this.promptUtils.confirmAction(`Add ${key.name} to ssh-agent now?`);
+    if (!load) {
+      return false;
+    }
+
+    const lifetime = await this.promptUtils.getAgentLifetime();
+    try {
+      await this.add(key.path, lifetime);
+    } catch (error) {
+      console.log(chalk.red(error instanceof Error ? error.message : String(error)));
+      return false;
+    }
+
+    key.loadedInAgent = true;
+    console.log(chalk.green(`✅ ${key.name} loaded in ssh-agent${lifetime ? ` for ${lifetime}` : ''}`));
+    return true;
+  }
+}
@@ -1,28 +1,36 @@
 // src/core/ssh-manager.ts - Enhanced version with better error handling
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { execSync } from 'child_process';
-import { SSHKey } from '../types';
+import { SSHKey, KeyGenerationOptions, SSHTestResult, KeyProbeResult } from '../types';
 import { PathUtils } from '../utils/path-utils';
+import { ProcessRunner } from '../utils/process-runner';
+import { RemoteUrl } from '../utils/remote-url';
+import { SSHKeyParser } from '../utils/ssh-key-parser';
+import { SSHAgent } from './ssh-agent';
 import chalk from 'chalk';
 
 export class SSHManager {
   private sshDir: string;
+  private agent: SSHAgent;
 
   constructor() {
     // Handle both Unix and Windows paths properly
     const homeDir = process.env.HOME || process.env.USERPROFILE || '';
     this.sshDir = path.join(homeDir, '.ssh');
+    this.agent = new SSHAgent();
   }
 
+  /**
+   * Find usable keys in ~/.ssh. Diagnostics go to stderr so --json output on stdout stays parseable.
+   */
   async discoverSSHKeys(): Promise<SSHKey[]> {
     const keys: SSHKey[] = [];
     
     try {
       // Ensure SSH directory exists
       if (!await fs.pathExists(this.sshDir)) {
-        console.log(chalk.yellow(`SSH directory not found: ${this.sshDir}`));
-        console.log(chalk.blue('Creating SSH directory...'));
+        console.warn(chalk.yellow(`SSH directory not found: ${this.sshDir}`));
+        console.warn(chalk.blue('Creating SSH directory...'));
         await fs.ensureDir(this.sshDir);
         
         // Set secure permissions on Unix-like systems
@@ -35,14 +43,8 @@ export class SSHManager {
         return keys;
       }
 
-      const files = await fs.readdir(this.sshDir);
-      const keyFiles = files.filter(file => 
-        !file.endsWith('.pub') && 
-        !file.includes('known_hosts') &&
-        !file.includes('config') &&
-        !file.includes('authorized_keys') &&
-        !file.startsWith('.')
-      );
+      const keyFiles = await this.listKeyFiles();
+      const agentFingerprints = await this.agent.loadedFingerprints();
 
       for (const keyFile of keyFiles) {
         const keyPath = path.join(this.sshDir, keyFile);
@@ -51,17 +53,7 @@ export class SSHManager {
         // Validate key file accessibility
         if (await this.validateKeyFile(keyPath, pubKeyPath)) {
           try {
-            const keyType = await this.getKeyType(keyPath);
-            const fingerprint = await this.getKeyFingerprint(pubKeyPath);
-            
-            keys.push({
-              name: keyFile,
-              path: keyPath,
-              relativePath: PathUtils.toRelativeSSHPath(keyPath),
-              publicKeyPath: pubKeyPath,
-              fingerprint,
-              type: keyType
-            });
+            keys.push(await this.describeKey(keyPath, agentFingerprints));
           } catch (error) {
             console.warn(chalk.yellow(`⚠️  Could not read key: ${keyFile} - ${error}`));
           }
@@ -82,6 +74,85 @@ export class SSHManager {
     return keys;
   }
 
+  /**
+   * Build the SSHKey for a private key file anywhere on disk (no validation or permission fixes).
+   * Pass the agent's fingerprints when describing several keys to ask ssh-agent only once.
+   */
+  async describeKey(keyPath: string, agentFingerprints?: Set<string>): Promise<SSHKey> {
+    const pubKeyPath = `${keyPath}.pub`;
+    const privateKey = SSHKeyParser.parsePrivateKey(await fs.readFile(keyPath, 'utf8'));
+
+    // The .pub file has the comment; OpenSSH private keys embed the same public key
+    let publicKey = privateKey.publicKey;
+    if (await fs.pathExists(pubKeyPath)) {
+      try {
+        publicKey = SSHKeyParser.parsePublicKey(await fs.readFile(pubKeyPath, 'utf8'));
+      } catch (error) {
+        console.warn(chalk.yellow(`Could not parse ${path.basename(pubKeyPath)}: ${error instanceof Error ? error.message : error}`));
+      }
+    }
+
+    const type = publicKey?.type || privateKey.type;
+    if (!type) {
+      throw new Error(`Unsupported or unrecognised key type${publicKey ? `: ${publicKey.algorithm}` : ''}`);
+    }
+
+    const loaded = agentFingerprints || await this.agent.loadedFingerprints();
+    return {
+      name: path.basename(keyPath),
+      path: keyPath,
+      relativePath: PathUtils.toRelativeSSHPath(keyPath),
+      publicKeyPath: pubKeyPath,
+      fingerprint: publicKey?.fingerprint || 'Unknown',
+      fingerprintMD5: publicKey?.fingerprintMD5,
+      type,
+      algorithm: publicKey?.algorithm,
+      bits: publicKey?.bits ?? undefined,
+      comment: publicKey?.comment || undefined,
+      encrypted: privateKey.encrypted,
+      loadedInAgent: !!publicKey && loaded.has(publicKey.fingerprint)
+    };
+  }
+
+  /**
+   * Names of the files in ~/.ssh that look like private keys
+   */
+  async listKeyFiles(): Promise<string[]> {
+    if (!await fs.pathExists(this.sshDir)) {
+      return [];
+    }
+
+    const files = await fs.readdir(this.sshDir);
+    return files.filter(file => 
+      !file.endsWith('.pub') && 
+      !file.includes('known_hosts') &&
+      !file.includes('config') &&
+      !file.includes('authorized_keys') &&
+      !file.startsWith('.')
+    );
+  }
+
+  /**
+   * Check that a private key is only accessible by its owner (always secure on Windows)
+   */
+  async checkKeyPermissions(keyPath: string): Promise<{ secure: boolean; mode: string }> {
+    if (process.platform === 'win32') {
+      return { secure: true, mode: '' };
+    }
+    const stats = await fs.stat(keyPath);
+    const mode = stats.mode & parseInt('777', 8);
+    return {
+      secure: mode === parseInt('600', 8) || mode === parseInt('400', 8),
+      mode: mode.toString(8).padStart(3, '0')
+    };
+  }
+
+  async fixKeyPermissions(keyPath: string): Promise<void> {
+    if (process.platform !== 'win32') {
+      await fs.chmod(keyPath, '600');
+    }
+  }
+
   private async validateKeyFile(keyPath: string, pubKeyPath: string): Promise<boolean> {
     try {
       // Check if files exist and are readable
@@ -108,17 +179,14 @@ export class SSHManager {
       }
 
       // Fix permissions on Unix-like systems
-      if (process.platform !== 'win32') {
-        try {
-          const stats = await fs.stat(keyPath);
-          const mode = stats.mode & parseInt('777', 8);
-          if (mode !== parseInt('600', 8) && mode !== parseInt('400', 8)) {
-            console.log(chalk.blue(`Fixing permissions for: ${path.basename(keyPath)}`));
-            await fs.chmod(keyPath, '600');
-          }
-        } catch (permError) {
-          console.warn(chalk.yellow(`Could not fix permissions: ${permError}`));
+      try {
+        const { secure } = await this.checkKeyPermissions(keyPath);
+        if (!secure) {
+          console.warn(chalk.blue(`Fixing permissions for: ${path.basename(keyPath)}`));
+          await this.fixKeyPermissions(keyPath);
         }
+      } catch (permError) {
+        console.warn(chalk.yellow(`Could not fix permissions: ${permError}`));
       }
 
       return true;
@@ -129,129 +197,191 @@ export class SSHManager {
   }
 
   private async offerKeyGeneration(): Promise<void> {
-    console.log(chalk.yellow('\n🔑 No valid SSH keys found!'));
-    console.log(chalk.blue('Generate a new SSH key with:'));
-    console.log(chalk.green('ssh-keygen -t ed25519 -C "your_email@example.com"'));
-    console.log(chalk.blue('Or use an existing key:'));
-    console.log(chalk.green('ssh-keygen -t rsa -b 4096 -C "your_email@example.com"'));
-    console.log(chalk.gray('Then add the public key to your Git service (GitHub, GitLab, etc.)'));
-    console.log(chalk.yellow('Falling back to HTTPS clone...\n'));
+    console.warn(chalk.yellow('\n🔑 No valid SSH keys found!'));
+    console.warn(chalk.blue('Generate a new SSH key with:'));
+    console.warn(chalk.green('gitsm key generate'));
+    console.warn(chalk.blue('Or use ssh-keygen directly:'));
+    console.warn(chalk.green('ssh-keygen -t ed25519 -C "your_email@example.com"'));
+    console.warn(chalk.gray('Then add the public key to your Git service (GitHub, GitLab, etc.)'));
+    console.warn(chalk.yellow('Falling back to HTTPS clone...\n'));
+  }
+
+  /**
+   * Find a discovered key by file name, ~/ path or absolute path
+   */
+  findKey(keys: SSHKey[], nameOrPath: string): SSHKey | undefined {
+    const absolutePath = path.resolve(PathUtils.fromRelativeSSHPath(nameOrPath));
+    return keys.find(key => key.name === nameOrPath || key.path === absolutePath);
   }
 
-  private async getKeyType(keyPath: string): Promise<'rsa' | 'ed25519' | 'ecdsa' | 'dsa'> {
+  getSSHDirectory(): string {
+    return this.sshDir;
+  }
+
+  async generateKey(options: KeyGenerationOptions): Promise<SSHKey> {
+    if (!options.name || /[\\/]/.test(options.name) || options.name === '.' || options.name === '..') {
+      throw new Error(`Invalid key name: '${options.name}' (a file name inside ${this.sshDir}, without path separators)`);
+    }
+    const keyPath = path.join(this.sshDir, options.name);
+    const pubKeyPath = `${keyPath}.pub`;
+
+    if (await fs.pathExists(keyPath) || await fs.pathExists(pubKeyPath)) {
+      throw new Error(`A key named '${options.name}' already exists in ${this.sshDir}`);
+    }
+
+    await fs.ensureDir(this.sshDir);
+    if (process.platform !== 'win32') {
+      await fs.chmod(this.sshDir, '700');
+    }
+
+    const args = ['-t', options.type];
+    if (options.type === 'rsa') {
+      args.push('-b', '4096');
+    }
+    args.push(
+      '-f', keyPath,
+      '-C', options.comment || '',
+      '-q'
+    );
+
     try {
-      const keyContent = await fs.readFile(keyPath, 'utf8');
-      
-      // Check for different key types
-      if (keyContent.includes('ssh-ed25519') || keyContent.includes('ED25519')) return 'ed25519';
-      if (keyContent.includes('ssh-rsa') || keyContent.includes('RSA')) return 'rsa';
-      if (keyContent.includes('ecdsa') || keyContent.includes('ECDSA')) return 'ecdsa';
-      if (keyContent.includes('ssh-dss') || keyContent.includes('DSA')) return 'dsa';
-      
-      // Default fallback
-      return 'rsa';
-    } catch (error) {
-      console.warn(chalk.yellow(`Could not determine key type: ${error}`));
-      return 'rsa';
+      if (options.passphrase) {
+        // Without -N, ssh-keygen reads the passphrase from the terminal, where no other process can see it
+        await ProcessRunner.run('ssh-keygen', args, { stdio: 'inherit' });
+      } else {
+        await ProcessRunner.run('ssh-keygen', [...args, '-N', ''], { timeout: 30000 });
+      }
+    } catch (error: any) {
+      const output = error.stderr?.trim() || error.message || 'unknown error';
+      throw new Error(`ssh-keygen failed: ${output}`);
+    }
+
+    // Private key must only be readable by the owner, public key is world-readable
+    if (process.platform !== 'win32') {
+      await fs.chmod(keyPath, '600');
+      await fs.chmod(pubKeyPath, '644');
     }
+
+    return this.describeKey(keyPath);
+  }
+
+  extractRepoInfo(repoUrl: string): { host: string; owner: string; repo: string; port?: number } {
+    const remote = RemoteUrl.parse(repoUrl);
+    return {
+      host: remote.host,
+      owner: remote.owner,
+      repo: remote.repo,
+      port: remote.port
+    };
   }
 
-  private async getKeyFingerprint(pubKeyPath: string): Promise<string> {
+  /**
+   * Authenticate against a host with `ssh -T` and extract the account name from its greeting
+   */
+  async authenticate(
+    keyPath: string,
+    host: string,
+    timeout: number = 15000,
+    port?: number,
+    user: string = 'git'
+  ): Promise<{ authenticated: boolean; account?: string }> {
+    let output = '';
     try {
-      const result = execSync(`ssh-keygen -lf "${pubKeyPath}"`, { 
-        encoding: 'utf8',
-        timeout: 5000 
-      });
-      const parts = result.trim().split(' ');
-      return parts[1] || 'Unknown';
-    } catch (error) {
-      console.warn(chalk.yellow(`Could not get fingerprint: ${error}`));
-      return 'Unknown';
+      const portArgs = port ? ['-p', String(port)] : [];
+      const result = await ProcessRunner.run('ssh', [
+        ...PathUtils.createSSHCommandArray(keyPath, ['-o', 'ConnectTimeout=10', '-o', 'BatchMode=yes', ...portArgs]).slice(1),
+        '-T', `${user}@${host}`
+      ], { timeout });
+      output = `${result.stdout}${result.stderr}`;
+    } catch (error: any) {
+      // Git hosts exit non-zero after greeting because shell access is disabled
+      output = `${error.stdout || ''}${error.stderr || ''}` || error.message || '';
     }
+
+    const authenticated = [
+      /You've successfully authenticated/i,           // GitHub
+      /successfully authenticated/i,                  // General
+      /Welcome to GitLab/i,                          // GitLab
+      /logged in as/i,                               // Bitbucket
+      /Hi [^!\s]+!/i,                                // GitHub personal greeting
+      /You can use git (or hg )?to connect/i,        // Bitbucket
+      /Shell access is not supported/i               // Azure DevOps: "remote: Shell access is not supported."
+    ].some(pattern => pattern.test(output));
+
+    return { authenticated, account: authenticated ? this.parseAccount(output) : undefined };
   }
 
-  private extractRepoInfo(repoUrl: string): { host: string; owner: string; repo: string } {
-    // Handle SSH URLs (git@github.com:owner/repo.git)
-    const sshMatch = repoUrl.match(/git@([^:]+):([^\/]+)\/([^\.]+)(?:\.git)?$/);
-    if (sshMatch) {
-      return {
-        host: sshMatch[1],
-        owner: sshMatch[2],
-        repo: sshMatch[3]
-      };
-    }
+  private parseAccount(greeting: string): string | undefined {
+    const patterns = [
+      /Hi ([^!\s]+)!/i,                     // GitHub: "Hi octocat! You've successfully authenticated"
+      /Welcome to GitLab, @?([^!\s]+)!/i,   // GitLab: "Welcome to GitLab, @octocat!"
+      /logged in as ([^\s.]+)/i             // Bitbucket: "authenticated via ssh key ... logged in as octocat."
+    ];
 
-    // Handle HTTPS URLs (https://github.com/owner/repo.git)
-    const httpsMatch = repoUrl.match(/https:\/\/([^\/]+)\/([^\/]+)\/([^\.]+)(?:\.git)?$/);
-    if (httpsMatch) {
-      return {
-        host: httpsMatch[1],
-        owner: httpsMatch[2],
-        repo: httpsMatch[3]
-      };
+    for (const pattern of patterns) {
+      const match = greeting.match(pattern);
+      if (match) {
+        return match[1];
+      }
     }
-
-    throw new Error(`Invalid repository URL format: ${repoUrl}`);
+    return undefined;
   }
 
-  async testSSHKey(keyPath: string, repoUrl: string): Promise<{success: boolean, error?: string}> {
+  async testSSHKey(keyPath: string, repoUrl: string, timeout: number = 15000): Promise<SSHTestResult> {
     try {
-      const { host, owner, repo } = this.extractRepoInfo(repoUrl);
+      // Test over SSH even when the repository was given as an HTTPS URL
+      const remote = RemoteUrl.parse(repoUrl).toSSH();
+      const { host, owner, repo } = remote;
       
       // First test basic SSH authentication
-      try {
-        execSync(`ssh -i "${keyPath}" -T -o ConnectTimeout=10 -o StrictHostKeyChecking=no git@${host}`, { 
-          stdio: 'pipe',
-          timeout: 15000,
-          encoding: 'utf8'
-        });
-      } catch (error: any) {
-        // Check for success patterns in the error output
-        const output = error.stdout || error.stderr || error.message || '';
-        const basicAuthSuccess = [
-          /You've successfully authenticated/i,           // GitHub
-          /successfully authenticated/i,                  // General
-          /Welcome to GitLab/i,                          // GitLab
-          /logged in as/i,                               // Bitbucket
-          /Hi \w+!/i,                                    // GitHub personal greeting
-          /You can use git or hg to connect/i            // Bitbucket
-        ].some(pattern => pattern.test(output));
-
-        if (!basicAuthSuccess) {
-          return { 
-            success: false, 
-            error: `Failed to authenticate with ${host}. Please ensure your SSH key is added to your account.` 
+      const { authenticated, account } = await this.authenticate(keyPath, host, timeout, remote.port, remote.user);
+      if (!authenticated) {
+        // Tests run with BatchMode, so a passphrase-protected key only works through the agent
+        const key = await this.describeKey(keyPath).catch(() => null);
+        if (key?.encrypted && !key.loadedInAgent) {
+          return {
+            success: false,
+            authenticated: false,
+            error: `${PathUtils.toRelativeSSHPath(keyPath)} is protected by a passphrase and not loaded in ssh-agent. Run: ssh-add ${PathUtils.toRelativeSSHPath(keyPath)}`
           };
         }
+        return { 
+          success: false, 
+          authenticated: false,
+          error: `Failed to authenticate with ${host}. Please ensure your SSH key is added to your account.` 
+        };
       }
 
       // Now test repository-specific access using git ls-remote
       try {
-        const sshCommand = process.platform === 'win32'
-          ? `set GIT_SSH_COMMAND=ssh -i "${keyPath}" -o StrictHostKeyChecking=no && git ls-remote git@${host}:${owner}/${repo}.git HEAD`
-          : `GIT_SSH_COMMAND="ssh -i '${keyPath}' -o StrictHostKeyChecking=no" git ls-remote git@${host}:${owner}/${repo}.git HEAD`;
-
-        execSync(sshCommand, { 
-          stdio: 'pipe',
-          timeout: 15000,
-          encoding: 'utf8'
+        const sshCommand = PathUtils.createSSHCommand(keyPath, ['-o', 'ConnectTimeout=10', '-o', 'BatchMode=yes']);
+
+        await ProcessRunner.run('git', ['ls-remote', '--', remote.format(), 'HEAD'], { 
+          env: { GIT_SSH_COMMAND: sshCommand },
+          timeout
         });
-        return { success: true };
+        return { success: true, authenticated: true, account };
       } catch (error: any) {
         const output = error.toString().toLowerCase();
         if (output.includes('permission denied') || output.includes('access denied')) {
           return { 
             success: false, 
+            authenticated: true,
+            account,
             error: `You don't have access to ${owner}/${repo}. Please check your repository permissions.` 
           };
         } else if (output.includes('repository not found')) {
           return { 
             success: false, 
+            authenticated: true,
+            account,
             error: `Repository ${owner}/${repo} not found. Please check if the repository exists and you have the correct URL.` 
           };
         }
         return { 
           success: false, 
+          authenticated: true,
+          account,
           error: `Failed to verify repository access: ${error.message || error}` 
         };
       }
@@ -262,4 +392,18 @@ export class SSHManager {
       };
     }
   }
+
+  /**
+   * Test every key against a repository in parallel.
+   * Each probe is bounded by the timeout so one unreachable host cannot stall the others.
+   */
+  async probeKeys(keys: SSHKey[], repoUrl: string, timeout: number = 15000): Promise<KeyProbeResult[]> {
+    return Promise.all(keys.map(async key => {
+      const timedOut = new Promise<SSHTestResult>(resolve =>
+        setTimeout(() => resolve({ success: false, error: 'Timed out' }), timeout + 1000).unref()
+      );
+      const result = await Promise.race([this.testSSHKey(key.path, repoUrl, timeout), timedOut]);
+      return { key, ...result };
+    }));
+  }
 }
\ No newline at end of file
@@ -6,6 +6,20 @@ import { CloneCommand } from './commands/clone';
 import { ListCommand } from './commands/list';
 import { FixCommand } from './commands/fix';
 import { ConvertCommand } from './commands/convert';
+import { KeyCommand } from './commands/key';
+import { IdentityCommand } from './commands/identity';
+import { RulesCommand } from './commands/rules';
+import { WhoamiCommand } from './commands/whoami';
+import { HostsCommand } from './commands/hosts';
+import { DoctorCommand } from './commands/doctor';
+import { StatusCommand } from './commands/status';
+import { ExecCommand } from './commands/exec';
+import { SwitchCommand } from './commands/switch';
+import { ConfigCommand } from './commands/config';
+import { ReposCommand } from './commands/repos';
+import { UnmanageCommand } from './commands/unmanage';
+import { HistoryCommand } from './commands/history';
+import { PromptUtils } from './utils/prompt-utils';
 
 const program = new Command();
 
@@ -16,14 +30,29 @@ program
 
 // Clone command
 program
-  .command('clone <repository>')
+  .command('clone [repository]')
   .description('Clone a repository with SSH key selection')
   .option('--ssh', 'Force SSH clone (default behavior)')
   .option('--https', 'Force HTTPS clone (fallback)')
   .option('-d, --dir <directory>', 'Target directory name')
-  .action(async (repository: string, options) => {
+  .option('-i, --identity <name>', 'Use a named identity (SSH key and commit author)')
+  .option('-k, --key <key>', 'SSH key name or path, or "auto" to detect the key with access')
+  .option('-m, --manifest <file>', 'Clone every repository listed in a JSON or YAML manifest')
+  .option('--concurrency <n>', 'Parallel clones when using a manifest', '4')
+  .option('--no-https-fallback', 'Fail instead of offering HTTPS when the SSH clone fails')
+  .option('-y, --yes', 'Accept the default answer of every confirmation')
+  .option('--non-interactive', 'Never prompt; fail with exit code 3 when input is needed')
+  .action(async (repository: string | undefined, options) => {
+    PromptUtils.configure(options);
     const cloneCmd = new CloneCommand();
-    await cloneCmd.execute(repository, options);
+    if (options.manifest) {
+      await cloneCmd.executeManifest(options.manifest, options);
+    } else if (repository) {
+      await cloneCmd.execute(repository, options);
+    } else {
+      console.error(chalk.red('error: missing required argument \'repository\' (or use --manifest <file>)'));
+      process.exit(1);
+    }
   });
 
 // List commands
@@ -34,39 +63,364 @@ const listCmd = program
 listCmd
   .command('keys')
   .description('List available SSH keys')
-  .action(async () => {
+  .option('--json', 'Print JSON (same as --format json)')
+  .option('--format <format>', 'Output format: table, json or tsv', 'table')
+  .action(async (options) => {
     const listCommand = new ListCommand();
-    await listCommand.listKeys();
+    await listCommand.listKeys(options);
   });
 
 listCmd
   .command('repos')
   .description('List configured repositories')
-  .action(async () => {
+  .option('--json', 'Print JSON (same as --format json)')
+  .option('--format <format>', 'Output format: table, json or tsv', 'table')
+  .action(async (options) => {
     const listCommand = new ListCommand();
-    await listCommand.listRepos();
+    await listCommand.listRepos(options);
+  });
+
+// Key to account report
+program
+  .command('whoami')
+  .description('Show which account each SSH key authenticates as')
+  .option('--host <host...>', 'Hosts to test (defaults to github.com, gitlab.com and bitbucket.org)')
+  .option('--json', 'Print JSON (same as --format json)')
+  .option('--format <format>', 'Output format: table, json or tsv', 'table')
+  .action(async (options) => {
+    const whoamiCmd = new WhoamiCommand();
+    await whoamiCmd.execute(options);
+  });
+
+// Key management commands
+const keyCmd = program
+  .command('key')
+  .description('Create and manage SSH keys');
+
+keyCmd
+  .command('generate')
+  .description('Generate a new SSH key and optionally attach it to the current repository')
+  .option('-t, --type <type>', 'Key type: ed25519 or rsa (RSA keys are 4096 bits)')
+  .option('-n, --name <name>', 'Key file name inside ~/.ssh')
+  .option('-C, --comment <comment>', 'Key comment, usually your email')
+  .option('--no-passphrase', 'Create the key without a passphrase')
+  .option('-r, --repo <repoPath>', 'Repository to attach the key to (defaults to current directory)')
+  .option('-y, --yes', 'Accept the default answer of every confirmation')
+  .option('--non-interactive', 'Never prompt; fail with exit code 3 when input is needed')
+  .action(async (options) => {
+    PromptUtils.configure(options);
+    const keyCommand = new KeyCommand();
+    await keyCommand.generate(options);
+  });
+
+keyCmd
+  .command('rotate <oldKey>')
+  .description('Move every repository that uses a key to a new key, after testing the new key per remote')
+  .option('--to <newKey>', 'Existing replacement key (name or path)')
+  .option('--generate', 'Generate the replacement key first')
+  .option('-t, --type <type>', 'Type of the generated key: ed25519 or rsa')
+  .option('-n, --name <name>', 'File name of the generated key inside ~/.ssh')
+  .option('-C, --comment <comment>', 'Comment of the generated key')
+  .option('--no-passphrase', 'Generate the key without a passphrase')
+  .option('-y, --yes', 'Accept the default answer of every confirmation')
+  .option('--non-interactive', 'Never prompt; fail with exit code 3 when input is needed')
+  .action(async (oldKey: string, options) => {
+    PromptUtils.configure(options);
+    const keyCommand = new KeyCommand();
+    await keyCommand.rotate(oldKey, options);
+  });
+
+keyCmd
+  .command('audit')
+  .description('Check every SSH key against the key policy (exits 1 when a key breaks it)')
+  .option('--json', 'Print JSON (same as --format json)')
+  .option('--format <format>', 'Output format: table, json or tsv', 'table')
+  .action(async (options) => {
+    const keyCommand = new KeyCommand();
+    await keyCommand.audit(options);
+  });
+
+keyCmd
+  .command('policy')
+  .description('Show or change the key policy used by "key audit", clone and convert')
+  .option('--min-rsa-bits <bits>', 'Smallest acceptable RSA key size')
+  .option('--max-age-days <days>', 'Oldest acceptable key age in days, or "off"')
+  .option('--require-passphrase', 'Treat keys without a passphrase as policy violations')
+  .option('--no-require-passphrase', 'Only warn about keys without a passphrase')
+  .option('--allow-dsa', 'Accept DSA keys')
+  .option('--no-allow-dsa', 'Reject DSA keys')
+  .option('--enforce <mode>', 'What clone and convert do with violating keys: warn or refuse')
+  .action(async (options) => {
+    const keyCommand = new KeyCommand();
+    await keyCommand.policy(options);
+  });
+
+// Configured repositories that moved or disappeared
+const reposCmd = program
+  .command('repos')
+  .description('Maintain the list of gitsm-managed repositories');
+
+reposCmd
+  .command('relocate <oldPath> <newPath>')
+  .description('Move the configuration of a repository whose directory was moved')
+  .action(async (oldPath: string, newPath: string) => {
+    const reposCommand = new ReposCommand();
+    await reposCommand.relocate(oldPath, newPath);
+  });
+
+reposCmd
+  .command('prune')
+  .description('Remove configured repositories whose directory no longer exists')
+  .option('--dry-run', 'Only list them')
+  .option('-y, --yes', 'Accept the default answer of every confirmation')
+  .option('--non-interactive', 'Never prompt; fail with exit code 3 when input is needed')
+  .action(async (options) => {
+    PromptUtils.configure(options);
+    const reposCommand = new ReposCommand();
+    await reposCommand.prune(options);
+  });
+
+program
+  .command('unmanage [path]')
+  .description('Restore the git settings gitsm changed in a repository and stop managing it')
+  .option('-y, --yes', 'Accept the default answer of every confirmation')
+  .option('--non-interactive', 'Never prompt; fail with exit code 3 when input is needed')
+  .action(async (repoPath: string | undefined, options) => {
+    PromptUtils.configure(options);
+    const unmanageCmd = new UnmanageCommand();
+    await unmanageCmd.execute(repoPath);
+  });
+
+// Change journal
+program
+  .command('history [path]')
+  .description('Show the changes gitsm made, newest first (optionally only those to one repository)')
+  .option('-n, --limit <count>', 'Number of operations to show', '20')
+  .option('--json', 'Print JSON (same as --format json)')
+  .option('--format <format>', 'Output format: table, json or tsv', 'table')
+  .action(async (repoPath: string | undefined, options) => {
+    const historyCmd = new HistoryCommand();
+    await historyCmd.show(repoPath, options);
+  });
+
+program
+  .command('undo [id]')
+  .description('Revert the changes of one operation from "gitsm history"')
+  .option('--last', 'Revert the most recent operation that has not been undone')
+  .option('-y, --yes', 'Accept the default answer of every confirmation')
+  .option('--non-interactive', 'Never prompt; fail with exit code 3 when input is needed')
+  .action(async (id: string | undefined, options) => {
+    PromptUtils.configure(options);
+    const historyCmd = new HistoryCommand();
+    await historyCmd.undo(id, options);
   });
 
 // Register fix command
 program
   .command('fix <repoPath>')
   .description('Fix SSH key configuration for a repository')
-  .action(async (repoPath: string) => {
+  .option('-i, --identity <name>', 'Apply a named identity (SSH key and commit author)')
+  .option('-k, --key <key>', 'SSH key name or path to use')
+  .option('-y, --yes', 'Accept the default answer of every confirmation')
+  .option('--non-interactive', 'Never prompt; fail with exit code 3 when input is needed')
+  .action(async (repoPath: string, options) => {
+    PromptUtils.configure(options);
     if (!repoPath) {
       console.log(chalk.red('Please provide the path to the repository.'));
       return;
     }
     const fixCmd = new FixCommand();
-    await fixCmd.execute(repoPath);
+    await fixCmd.execute(repoPath, options);
   });
 
 // Add convert command
 program
   .command('convert [repoPath]')
   .description('Convert an existing repository to use gitsm')
-  .action(async (repoPath?: string) => {
+  .option('-i, --identity <name>', 'Use a named identity (SSH key and commit author)')
+  .option('--all <workspaceDir>', 'Convert every repository found below a directory')
+  .option('-k, --key <key>', 'SSH key name or path to use')
+  .option('-y, --yes', 'Accept the default answer of every confirmation')
+  .option('--non-interactive', 'Never prompt; fail with exit code 3 when input is needed')
+  .action(async (repoPath: string | undefined, options) => {
+    PromptUtils.configure(options);
     const convertCmd = new ConvertCommand();
-    await convertCmd.execute(repoPath);
+    if (options.all) {
+      await convertCmd.executeAll(options.all, options);
+    } else {
+      await convertCmd.execute(repoPath, options);
+    }
+  });
+
+// Identity commands
+const identityCmd = program
+  .command('identity')
+  .description('Manage identities that bundle an SSH key with a commit author');
+
+identityCmd
+  .command('add <name>')
+  .description('Create or update an identity')
+  .option('-k, --key <keyPath>', 'SSH private key for this identity')
+  .option('--user-name <name>', 'Commit author name (user.name)')
+  .option('--email <email>', 'Commit author email (user.email)')
+  .option('--signing-key <key>', 'Signing key (user.signingkey)')
+  .action(async (name: string, options) => {
+    const identityCommand = new IdentityCommand();
+    await identityCommand.add(name, options);
+  });
+
+identityCmd
+  .command('list')
+  .description('List configured identities')
+  .action(async () => {
+    const identityCommand = new IdentityCommand();
+    await identityCommand.list();
+  });
+
+identityCmd
+  .command('remove <name>')
+  .description('Remove an identity')
+  .action(async (name: string) => {
+    const identityCommand = new IdentityCommand();
+    await identityCommand.remove(name);
+  });
+
+// Key selection rules
+const rulesCmd = program
+  .command('rules')
+  .description('Manage rules that pick an SSH key from the repository URL');
+
+rulesCmd
+  .command('list')
+  .description('List key selection rules in evaluation order')
+  .action(async () => {
+    const rulesCommand = new RulesCommand();
+    await rulesCommand.list();
+  });
+
+rulesCmd
+  .command('add <pattern> <keyPath>')
+  .description('Add a rule, e.g. "github.com:acme/*" ~/.ssh/id_work')
+  .action(async (pattern: string, keyPath: string) => {
+    const rulesCommand = new RulesCommand();
+    await rulesCommand.add(pattern, keyPath);
+  });
+
+rulesCmd
+  .command('remove <pattern>')
+  .description('Remove a rule by its pattern')
+  .action(async (pattern: string) => {
+    const rulesCommand = new RulesCommand();
+    await rulesCommand.remove(pattern);
+  });
+
+rulesCmd
+  .command('test <repository>')
+  .description('Show which rule would apply to a repository URL')
+  .action(async (repository: string) => {
+    const rulesCommand = new RulesCommand();
+    await rulesCommand.test(repository);
+  });
+
+// Trusted host keys
+const hostsCmd = program
+  .command('hosts')
+  .description('Manage the host keys gitsm trusts for SSH connections');
+
+hostsCmd
+  .command('list')
+  .description('List trusted hosts and their key fingerprints')
+  .action(async () => {
+    const hostsCommand = new HostsCommand();
+    await hostsCommand.list();
+  });
+
+hostsCmd
+  .command('add <host>')
+  .description('Fetch a host\'s keys and trust them after confirmation')
+  .action(async (host: string) => {
+    const hostsCommand = new HostsCommand();
+    await hostsCommand.add(host);
+  });
+
+hostsCmd
+  .command('remove <host>')
+  .description('Remove all trusted keys of a host')
+  .action(async (host: string) => {
+    const hostsCommand = new HostsCommand();
+    await hostsCommand.remove(host);
+  });
+
+hostsCmd
+  .command('verify [host]')
+  .description('Check that hosts still present the trusted keys')
+  .action(async (host?: string) => {
+    const hostsCommand = new HostsCommand();
+    await hostsCommand.verify(host);
+  });
+
+// Status command
+program
+  .command('status [path]')
+  .description('Show the remote, SSH key and core.sshCommand of a repository (exits 1 on drift)')
+  .option('--no-test', 'Skip the connection test')
+  .option('--json', 'Print JSON (same as --format json)')
+  .option('--format <format>', 'Output format: table, json or tsv', 'table')
+  .action(async (repoPath: string | undefined, options) => {
+    const statusCmd = new StatusCommand();
+    await statusCmd.execute(repoPath, options);
+  });
+
+// Exec command
+program
+  .command('exec')
+  .description('Run a git command once with a chosen SSH key, without changing any config')
+  .argument('<gitArgs...>', 'Arguments passed to git (put them after --)')
+  .option('-k, --key <key>', 'SSH key name or path (defaults to the repository\'s configured key)')
+  .action(async (gitArgs: string[], options) => {
+    const execCmd = new ExecCommand();
+    await execCmd.execute(gitArgs, options);
+  });
+
+// Switch command
+program
+  .command('switch <branch>')
+  .description('Switch branches, stashing and re-applying uncommitted changes')
+  .option('-b, --create', 'Create the branch if it does not exist')
+  .option('--force', 'Switch without showing the diff summary of stashed changes')
+  .option('--no-pull', 'Skip pulling updates')
+  .option('-r, --repo <repoPath>', 'Repository to switch (defaults to current directory)')
+  .option('-y, --yes', 'Accept the default answer of every confirmation')
+  .option('--non-interactive', 'Never prompt; fail with exit code 3 when input is needed')
+  .action(async (branch: string, options) => {
+    PromptUtils.configure(options);
+    const switchCmd = new SwitchCommand();
+    await switchCmd.execute(branch, options);
+  });
+
+// Doctor command
+program
+  .command('doctor')
+  .description('Check tools, key permissions, configured repositories and connectivity')
+  .option('--fix', 'Apply safe fixes (permissions, core.sshCommand, known hosts)')
+  .option('--json', 'Print JSON (same as --format json)')
+  .option('--format <format>', 'Output format: table, json or tsv', 'table')
+  .action(async (options) => {
+    const doctorCmd = new DoctorCommand();
+    await doctorCmd.execute(options);
+  });
+
+// gitsm's own configuration
+const configCmd = program
+  .command('config')
+  .description('Inspect the gitsm configuration file');
+
+configCmd
+  .command('validate')
+  .description('Check ~/.gitsm/config.json for problems and pending migrations (exits 1 on problems)')
+  .action(async () => {
+    const configCommand = new ConfigCommand();
+    await configCommand.validate();
   });
 
 // Add upgrade command
@@ -119,10 +473,32 @@ program
     console.log(chalk.yellow('📖 Usage Examples:'));
     console.log('  gitsm clone git@github.com:user/repo.git');
     console.log('  gitsm clone git@github.com:user/repo.git -d my-project');
+    console.log('  gitsm clone git@github.com:user/repo.git --key auto');
+    console.log('  gitsm clone --manifest repos.yaml  # Clone a list of repositories');
+    console.log('  gitsm clone git@github.com:user/repo.git --key id_work --yes --non-interactive');
     console.log('  gitsm list keys');
     console.log('  gitsm list repos');
+    console.log('  gitsm list keys --json     # Machine-readable output');
+    console.log('  gitsm whoami               # Which account does each key belong to?');
+    console.log('  gitsm key generate         # Create a new SSH key');
+    console.log('  gitsm key audit            # Find weak, old or unused keys');
+    console.log('  gitsm key rotate id_old --to id_new');
+    console.log('  gitsm identity add work    # Bundle a key with a commit author');
+    console.log('  gitsm clone git@github.com:user/repo.git -i work');
+    console.log('  gitsm rules add "github.com:acme/*" ~/.ssh/id_work');
+    console.log('  gitsm hosts add git.example.com');
+    console.log('  gitsm status               # Which key does this repository use?');
+    console.log('  gitsm exec --key id_work -- ls-remote git@github.com:acme/api.git');
+    console.log('  gitsm switch feature-x     # Stash, switch, pull and re-apply changes');
+    console.log('  gitsm repos prune          # Forget repositories that were deleted');
+    console.log('  gitsm unmanage             # Undo what gitsm changed in this repository');
+    console.log('  gitsm history .            # What did gitsm change in this repository?');
+    console.log('  gitsm undo --last          # Revert the most recent change');
+    console.log('  gitsm doctor --fix         # Diagnose and repair common problems');
     console.log('  gitsm convert              # Convert current directory repository');
     console.log('  gitsm convert ./path/repo  # Convert specific repository');
+    console.log('  gitsm convert --all ~/src  # Convert every repository in a workspace');
+    console.log('  gitsm config validate      # Check ~/.gitsm/config.json after editing it');
     console.log('  gitsm upgrade              # Check for and install updates\n');
     
     program.help();
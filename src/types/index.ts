@@ -1,20 +1,208 @@
+export type SSHKeyAlgorithm =
+  | 'ssh-rsa'
+  | 'ssh-dss'
+  | 'ssh-ed25519'
+  | 'ecdsa-sha2-nistp256'
+  | 'ecdsa-sha2-nistp384'
+  | 'ecdsa-sha2-nistp521'
+  | 'sk-ssh-ed25519@openssh.com'           // FIDO security key
+  | 'sk-ecdsa-sha2-nistp256@openssh.com';  // FIDO security key
+
 export interface SSHKey {
   name: string;
   path: string;          // Absolute path
   relativePath: string;  // Relative path with ~ notation
   publicKeyPath: string;
-  fingerprint?: string;
-  type: 'rsa' | 'ed25519' | 'ecdsa' | 'dsa';
+  fingerprint?: string;     // SHA256:...
+  fingerprintMD5?: string;  // MD5:aa:bb:...
+  type: 'rsa' | 'ed25519' | 'ecdsa' | 'dsa' | 'sk-ed25519' | 'sk-ecdsa';
+  algorithm?: SSHKeyAlgorithm | string;   // Wire name, e.g. ecdsa-sha2-nistp384
+  bits?: number;
+  comment?: string;
+  encrypted?: boolean;      // Private key is protected by a passphrase
+  loadedInAgent?: boolean;  // Key is loaded in the running ssh-agent
+}
+
+export interface SSHTestResult {
+  success: boolean;          // Key can access the repository
+  authenticated?: boolean;   // Key was accepted by the host
+  account?: string;          // Account name from the host greeting
+  error?: string;
+}
+
+export interface KeyProbeResult extends SSHTestResult {
+  key: SSHKey;
 }
 
 export interface RepoConfig {
-  repoPath: string;
+  repoPath: string;      // Real path of the working tree's top level; also the key in GSMConfig.repositories
+  gitCommonDir?: string; // Real path of the git directory shared by all worktrees of the repository
   sshKeyPath: string;
   remoteUrl: string;
+  identity?: string;     // Name of the identity applied to this repo
   createdAt: Date;
+  lastTest?: TestRecord;
+}
+
+export interface TestRecord {
+  success: boolean;
+  account?: string;
+  error?: string;
+  checkedAt: Date;
+}
+
+/**
+ * What a repository looked like before gitsm first changed it, kept in <git dir>/gitsm/original.json
+ */
+export interface RepoOriginalState {
+  config: Record<string, string | null>;   // Local git config key -> previous value (null: was not set)
+  remoteUrl?: string;                      // origin URL before gitsm rewrote it
+  createdFiles: string[];                  // Files gitsm generated, relative to the git directory
+}
+
+export interface Identity {
+  name: string;
+  sshKeyPath: string;
+  userName: string;
+  userEmail: string;
+  signingKey?: string;
+}
+
+export interface KeyRule {
+  pattern: string;       // host:owner/repo glob, e.g. github.com:acme/*
+  sshKeyPath: string;
+}
+
+export interface KeyAccount {
+  account: string;
+  checkedAt: Date;
+}
+
+export interface KnownHostEntry {
+  host: string;          // host or [host]:port
+  keyType: string;
+  key: string;
+  line: string;          // Normalized known_hosts line
+  fingerprint?: string;
+}
+
+export interface KeyPolicy {
+  minRsaBits: number;
+  allowDsa: boolean;
+  requirePassphrase: boolean;       // false still reports keys without a passphrase, as a warning
+  maxKeyAgeDays: number | null;     // null disables the age check
+  enforce: 'warn' | 'refuse';       // What clone and convert do with a key that breaks the policy
+}
+
+export interface KeyPolicyFinding {
+  check: 'dsa' | 'rsa-size' | 'passphrase' | 'permissions' | 'age' | 'unused';
+  severity: 'error' | 'warning';
+  message: string;
 }
 
 export interface GSMConfig {
+  version: number;                  // Schema version, see CURRENT_CONFIG_VERSION
   repositories: Record<string, RepoConfig>;
+  identities?: Record<string, Identity>;
+  rules?: KeyRule[];
+  accounts?: Record<string, Record<string, KeyAccount>>;  // key path -> host -> account
+  policy?: Partial<KeyPolicy>;      // Unset fields use the defaults
   defaultSSHPath: string;
-}
\ No newline at end of file
+}
+
+export type JournalKind = 'git-config' | 'remote-url' | 'file' | 'gitsm-config' | 'known-host';
+
+export interface JournalEntry {
+  operation: string;          // Shared by every change of one gitsm run
+  timestamp: Date;
+  command: string;            // gitsm arguments, e.g. "convert ./api"
+  kind: JournalKind;
+  repoPath: string | null;    // null for gitsm's own settings and trusted hosts
+  setting: string;            // Git config key, remote name, file path, config.json location or host
+  oldValue: unknown;          // null: did not exist
+  newValue: unknown;
+  undoes?: string;            // Operation this change reverted
+}
+
+export interface JournalOperation {
+  id: string;
+  timestamp: Date;
+  command: string;
+  undoes: string | null;
+  undoneBy: string | null;    // Latest operation that reverted this one
+  changes: JournalEntry[];
+}
+
+export interface KeyGenerationOptions {
+  name: string;
+  type: 'ed25519' | 'rsa';
+  comment?: string;
+  passphrase?: boolean;     // ssh-keygen asks for it on the terminal, so it never appears on a command line
+}
+
+export interface ManifestEntry {
+  url: string;
+  dir?: string;
+  key?: string;      // SSH key name or path
+  branch?: string;
+  depth?: number;
+}
+
+export interface GitCloneOptions {
+  branch?: string;
+  depth?: number;
+  quiet?: boolean;   // Capture git's output instead of streaming it (used for parallel clones)
+}
+
+// Machine-readable output of "list keys", "list repos" and "status" (--json / --format tsv)
+
+export interface KeyReport {
+  name: string;
+  path: string;
+  relativePath: string;
+  type: SSHKey['type'];
+  algorithm: string | null;
+  bits: number | null;
+  comment: string | null;
+  fingerprint: string | null;
+  fingerprintMD5: string | null;
+  encrypted: boolean;
+  loadedInAgent: boolean;
+  repositories: string[];                      // Repositories configured with this key
+  accounts: { host: string; account: string; checkedAt: Date }[];
+  lastTest: (TestRecord & { repoPath: string }) | null;   // Most recent test of any of those repositories
+}
+
+export interface RepoReport {
+  repoPath: string;
+  remoteUrl: string;
+  sshKeyPath: string | null;                   // null for HTTPS repositories
+  sshKeyRelativePath: string | null;
+  identity: string | null;
+  createdAt: Date;
+  lastTest: TestRecord | null;
+}
+
+export interface RepoStatusReport {
+  repoPath: string;
+  managed: boolean;
+  remotes: { name: string; url: string; protocol: string }[];
+  identity: string | null;
+  sshKeyPath: string | null;
+  key: { type: SSHKey['type']; fingerprint: string | null } | null;
+  sshCommand: string | null;                   // Effective core.sshCommand
+  inSync: boolean;
+  problems: string[];                          // Drift; non-empty means exit code 1
+  test: TestRecord | null;                     // null when skipped or not applicable
+}
+
+export interface KeyAuditReport {
+  name: string;
+  path: string;
+  relativePath: string;
+  type: SSHKey['type'];
+  bits: number | null;
+  ageDays: number;
+  usedBy: string[];                 // Repositories, identities ("identity:<name>") and rules ("rule:<pattern>")
+  findings: KeyPolicyFinding[];
+}
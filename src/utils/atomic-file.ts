@@ -0,0 +1,152 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+const LOCK_TIMEOUT_MS = 10000;
+const LOCK_STALE_MS = 30000;     // Nothing holds the config lock this long; the holder crashed
+const LOCK_FIRST_DELAY_MS = 20;
+const LOCK_MAX_DELAY_MS = 500;
+
+/**
+ * Crash-safe writes and an advisory lock file, for files several gitsm processes update
+ */
+export class AtomicFile {
+  /**
+   * Write to a temporary file next to the target, fsync it and rename it over the target,
+   * so readers see either the old or the new content and never a partial file
+   */
+  static async write(filePath: string, content: string): Promise<void> {
+    const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`);
+    try {
+      const fd = await fs.open(tempPath, 'w', 0o600);
+      try {
+        await fs.writeFile(fd, content);
+        await fs.fsync(fd);
+      } finally {
+        await fs.close(fd);
+      }
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.remove(tempPath);
+      throw error;
+    }
+    await this.syncDirectory(path.dirname(filePath));
+  }
+
+  /**
+   * Run fn while holding <filePath>.lock. Waits with exponential backoff while another
+   * process holds it, and takes over a lock whose holder has exited or is stuck.
+   */
+  static async withLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${filePath}.lock`;
+    const owner = await this.acquire(lockPath);
+    try {
+      return await fn();
+    } finally {
+      // A lock taken over as stale belongs to someone else now
+      await this.removeIfOwned(lockPath, owner);
+    }
+  }
+
+  /**
+   * Create the lock file and return its content, "<pid> <random>", which identifies this holder
+   */
+  private static async acquire(lockPath: string): Promise<string> {
+    const owner = `${process.pid} ${Math.random().toString(36).slice(2)}\n`;
+    const started = Date.now();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const fd = await fs.open(lockPath, 'wx');
+        try {
+          await fs.writeFile(fd, owner);
+        } finally {
+          await fs.close(fd);
+        }
+        return owner;
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const stale = await this.staleOwner(lockPath);
+      if (stale !== null) {
+        await this.removeIfOwned(lockPath, stale);
+        continue;
+      }
+      if (Date.now() - started > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for ${lockPath}, held by another gitsm. If none is running, delete the file and try again.`);
+      }
+
+      // Jitter keeps parallel runs from retrying in lockstep
+      const delay = Math.min(LOCK_FIRST_DELAY_MS * 2 ** attempt, LOCK_MAX_DELAY_MS);
+      await new Promise(resolve => setTimeout(resolve, delay / 2 + Math.random() * delay / 2));
+    }
+  }
+
+  /**
+   * Remove the lock only if it still has the given content. The lock is first renamed to a name
+   * nobody else uses, so a holder that took it over in the meantime is put back instead of deleted.
+   */
+  private static async removeIfOwned(lockPath: string, owner: string): Promise<void> {
+    const claimedPath = `${lockPath}.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2)}`;
+    try {
+      await fs.rename(lockPath, claimedPath);
+    } catch {
+      return;   // Already gone
+    }
+
+    if (await fs.readFile(claimedPath, 'utf8') !== owner) {
+      try {
+        await fs.link(claimedPath, lockPath);   // Fails if yet another process created a lock since
+      } catch {
+        // That process holds the lock now
+      }
+    }
+    await fs.remove(claimedPath);
+  }
+
+  /**
+   * The content of a lock whose holder has exited or is stuck, null while the lock is valid
+   */
+  private static async staleOwner(lockPath: string): Promise<string | null> {
+    let content: string;
+    let modified: number;
+    try {
+      content = await fs.readFile(lockPath, 'utf8');
+      modified = (await fs.stat(lockPath)).mtimeMs;
+    } catch {
+      return null;   // Released in the meantime; the next attempt takes it
+    }
+
+    if (Date.now() - modified > LOCK_STALE_MS) {
+      return content;
+    }
+    const pid = parseInt(content, 10);
+    if (!pid || pid === process.pid) {
+      return null;   // Still being written, or held by this process
+    }
+    try {
+      process.kill(pid, 0);   // Signal 0 only checks that the process exists
+      return null;
+    } catch (error: any) {
+      return error?.code === 'ESRCH' ? content : null;
+    }
+  }
+
+  /**
+   * Persist the rename itself; not supported on every platform (e.g. Windows)
+   */
+  private static async syncDirectory(dirPath: string): Promise<void> {
+    let fd: number | undefined;
+    try {
+      fd = await fs.open(dirPath, 'r');
+      await fs.fsync(fd);
+    } catch {
+      // Best effort
+    } finally {
+      if (fd !== undefined) {
+        await fs.close(fd);
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import YAML from 'yaml';
+import { ManifestEntry } from '../types';
+import { RemoteUrl } from './remote-url';
+
+/**
+ * Reads clone manifests: a JSON or YAML list of repositories, either at the top level
+ * or under a "repositories" key. Entries may also be plain URL strings.
+ */
+export class CloneManifest {
+  static async load(manifestPath: string): Promise<ManifestEntry[]> {
+    const content = await fs.readFile(manifestPath, 'utf8');
+    const extension = path.extname(manifestPath).toLowerCase();
+
+    let data: unknown;
+    try {
+      data = extension === '.json' ? JSON.parse(content) : YAML.parse(content);
+    } catch (error) {
+      throw new Error(`Could not parse ${manifestPath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const list = Array.isArray(data) ? data : (data as { repositories?: unknown } | null)?.repositories;
+    if (!Array.isArray(list)) {
+      throw new Error(`${manifestPath} must contain a list of repositories`);
+    }
+
+    const entries = list.map((item, index) => this.toEntry(item, index));
+    const dirs = new Set<string>();
+    entries.forEach((entry, index) => {
+      const dir = this.targetPath(manifestPath, entry);
+      if (dirs.has(dir)) {
+        throw new Error(`Entry ${index + 1}: directory ${dir} is used by more than one repository`);
+      }
+      dirs.add(dir);
+    });
+    return entries;
+  }
+
+  /**
+   * Where an entry is cloned: its dir, or the repository name, relative to the manifest's directory
+   * so the same manifest clones to the same place wherever gitsm runs
+   */
+  static targetPath(manifestPath: string, entry: ManifestEntry): string {
+    return path.resolve(path.dirname(manifestPath), entry.dir || RemoteUrl.parse(entry.url).repo);
+  }
+
+  private static toEntry(item: unknown, index: number): ManifestEntry {
+    const label = `Entry ${index + 1}`;
+    if (typeof item === 'string') {
+      item = { url: item };
+    }
+    if (!item || typeof item !== 'object') {
+      throw new Error(`${label}: expected an object with a "url"`);
+    }
+
+    const { url, dir, key, branch, depth } = item as Record<string, unknown>;
+    if (typeof url !== 'string' || !RemoteUrl.tryParse(url)) {
+      throw new Error(`${label}: "url" must be a repository URL`);
+    }
+    for (const [name, value] of Object.entries({ dir, key, branch })) {
+      if (value !== undefined && typeof value !== 'string') {
+        throw new Error(`${label}: "${name}" must be a string`);
+      }
+    }
+    if (depth !== undefined && (typeof depth !== 'number' || !Number.isInteger(depth) || depth < 1)) {
+      throw new Error(`${label}: "depth" must be a positive integer`);
+    }
+
+    return {
+      url,
+      dir: dir as string | undefined,
+      key: key as string | undefined,
+      branch: branch as string | undefined,
+      depth: depth as number | undefined
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ConfigSchema, ConfigValidationError, CURRENT_CONFIG_VERSION } from './config-schema';
+
+const configPath = '/home/user/.gitsm/config.json';
+
+const v1 = () => ({
+  defaultSSHPath: '/home/user/.ssh',
+  repositories: {
+    '/src/api': {
+      sshKeyPath: '/home/user/.ssh/id_work',
+      remoteUrl: 'git@github.com:acme/api.git',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      lastTest: { success: true, account: 'octocat', checkedAt: '2024-01-02T00:00:00.000Z' }
+    },
+    '/src/gone': null
+  },
+  accounts: {
+    '/home/user/.ssh/id_work': { 'github.com': { account: 'octocat', checkedAt: '2024-01-03T00:00:00.000Z' } }
+  }
+});
+
+test('migrates v1 to v2: adds the version and each repoPath and drops null entries', () => {
+  const { config, version, applied } = ConfigSchema.migrate(v1(), configPath);
+  assert.equal(version, 1);
+  assert.equal(applied.length, 1);
+  assert.match(applied[0], /^v1 -> v2: /);
+  assert.equal(config.version, CURRENT_CONFIG_VERSION);
+  assert.deepEqual(Object.keys(config.repositories as object), ['/src/api']);
+  assert.equal((config.repositories as Record<string, { repoPath: string }>)['/src/api'].repoPath, '/src/api');
+  assert.deepEqual(ConfigSchema.check(config), []);
+});
+
+test('keeps a repoPath that is already set', () => {
+  const raw = v1();
+  const repositories: Record<string, unknown> = { '/src/api': { ...raw.repositories['/src/api'], repoPath: '/src/api-moved' } };
+  const { config } = ConfigSchema.migrate({ ...raw, repositories }, configPath);
+  assert.equal((config.repositories as Record<string, { repoPath: string }>)['/src/api'].repoPath, '/src/api-moved');
+});
+
+test('leaves a current config alone', () => {
+  const { config: migrated } = ConfigSchema.migrate(v1(), configPath);
+  const { config, version, applied } = ConfigSchema.migrate(migrated, configPath);
+  assert.equal(version, CURRENT_CONFIG_VERSION);
+  assert.deepEqual(applied, []);
+  assert.equal(config, migrated);
+});
+
+test('validate() turns timestamps into dates', () => {
+  const { config } = ConfigSchema.migrate(v1(), configPath);
+  const validated = ConfigSchema.validate(config, configPath);
+  const repo = validated.repositories['/src/api'];
+  assert.ok(repo.createdAt instanceof Date);
+  assert.equal(repo.createdAt.toISOString(), '2024-01-01T00:00:00.000Z');
+  assert.ok(repo.lastTest?.checkedAt instanceof Date);
+  assert.ok(validated.accounts?.['/home/user/.ssh/id_work']['github.com'].checkedAt instanceof Date);
+});
+
+test('rejects versions it cannot migrate', () => {
+  assert.throws(() => ConfigSchema.migrate({ version: 'two' }, configPath), ConfigValidationError);
+  assert.throws(() => ConfigSchema.migrate({ version: 0 }, configPath), ConfigValidationError);
+  assert.throws(() => ConfigSchema.migrate({ version: CURRENT_CONFIG_VERSION + 1 }, configPath), /only understands up to version/);
+});
+
+test('check() reports every problem with its location', () => {
+  const { config } = ConfigSchema.migrate(v1(), configPath);
+  const repositories = config.repositories as Record<string, Record<string, unknown>>;
+  repositories['/src/api'].createdAt = 'yesterday';
+  repositories['/src/api'].repoPath = '/src/other';
+  const issues = ConfigSchema.check({ ...config, rules: [{ pattern: 5 }], policy: { enforce: 'never' } });
+  assert.deepEqual(issues, [
+    'repositories["/src/api"].repoPath: does not match its key ("/src/other")',
+    'repositories["/src/api"].createdAt: expected a date, got "yesterday"',
+    'rules[0].pattern: expected a string, got 5',
+    'rules[0].sshKeyPath: expected a string, got nothing',
+    'policy.enforce: expected one of warn, refuse, got "never"'
+  ]);
+  assert.throws(() => ConfigSchema.validate({ ...config, rules: {} }, configPath), ConfigValidationError);
+});
@@ -0,0 +1,267 @@
+import { GSMConfig, KeyAccount, RepoConfig } from '../types';
+
+/**
+ * Version written by this gitsm. Files without a version field are version 1.
+ */
+export const CURRENT_CONFIG_VERSION = 2;
+
+export class ConfigValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(configPath: string, issues: string[]) {
+    super(`${configPath} is invalid:\n${issues.map(issue => `  - ${issue}`).join('\n')}\nFix the file by hand or restore a backup, then run "gitsm config validate".`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * A config, or part of one, as parsed from JSON and not validated yet
+ */
+export type RawConfig = Record<string, unknown>;
+
+interface Migration {
+  from: number;
+  description: string;
+  migrate(config: RawConfig): RawConfig;
+}
+
+// Each migration takes a config of version `from` to `from + 1`
+const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    description: 'add the version field and the repoPath of every repository entry',
+    migrate: config => {
+      const repositories: RawConfig = {};
+      for (const [repoPath, repo] of Object.entries(ConfigSchema.isObject(config.repositories) ? config.repositories : {})) {
+        // Early versions could leave null entries behind
+        if (ConfigSchema.isObject(repo)) {
+          repositories[repoPath] = { ...repo, repoPath: repo.repoPath || repoPath };
+        }
+      }
+      return { ...config, repositories, version: 2 };
+    }
+  }
+];
+
+/**
+ * Collects issues with their location, e.g. repositories["/src/app"].createdAt
+ */
+class Checker {
+  readonly issues: string[] = [];
+
+  object(value: unknown, where: string): value is RawConfig {
+    if (!ConfigSchema.isObject(value)) {
+      this.issues.push(`${where}: expected an object, got ${this.describe(value)}`);
+      return false;
+    }
+    return true;
+  }
+
+  string(value: unknown, where: string, optional: boolean = false): void {
+    if (optional && value === undefined) {
+      return;
+    }
+    if (typeof value !== 'string') {
+      this.issues.push(`${where}: expected a string, got ${this.describe(value)}`);
+    }
+  }
+
+  boolean(value: unknown, where: string, optional: boolean = false): void {
+    if (optional && value === undefined) {
+      return;
+    }
+    if (typeof value !== 'boolean') {
+      this.issues.push(`${where}: expected true or false, got ${this.describe(value)}`);
+    }
+  }
+
+  integer(value: unknown, where: string, optional: boolean = false): void {
+    if (optional && (value === undefined || value === null)) {
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      this.issues.push(`${where}: expected a whole number, got ${this.describe(value)}`);
+    }
+  }
+
+  oneOf(value: unknown, allowed: string[], where: string, optional: boolean = false): void {
+    if (optional && value === undefined) {
+      return;
+    }
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.issues.push(`${where}: expected one of ${allowed.join(', ')}, got ${this.describe(value)}`);
+    }
+  }
+
+  /**
+   * JSON has no dates, so timestamps are ISO strings on disk and Date objects in memory
+   */
+  date(value: unknown, where: string): Date | undefined {
+    const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : undefined;
+    if (!date || isNaN(date.getTime())) {
+      this.issues.push(`${where}: expected a date, got ${this.describe(value)}`);
+      return undefined;
+    }
+    return date;
+  }
+
+  private describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (value === undefined) return 'nothing';
+    if (Array.isArray(value)) return 'a list';
+    if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+    if (typeof value === 'object') return 'an object';
+    return String(value);
+  }
+}
+
+/**
+ * Versioning, migration and runtime validation of ~/.gitsm/config.json
+ */
+export class ConfigSchema {
+  static isObject(value: unknown): value is RawConfig {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * Bring a config up to CURRENT_CONFIG_VERSION. Returns the version it had and the applied migrations' descriptions.
+   */
+  static migrate(config: RawConfig, configPath: string): { config: RawConfig; version: number; applied: string[] } {
+    const version = config.version === undefined ? 1 : config.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new ConfigValidationError(configPath, [`version: expected a whole number, got ${JSON.stringify(config.version)}`]);
+    }
+    if (version > CURRENT_CONFIG_VERSION) {
+      throw new Error(`${configPath} has version ${version}, but this gitsm only understands up to version ${CURRENT_CONFIG_VERSION}. Upgrade gitsm with "gitsm upgrade".`);
+    }
+
+    const applied: string[] = [];
+    let migrated = config;
+    for (const migration of MIGRATIONS.filter(candidate => candidate.from >= version)) {
+      migrated = migration.migrate(migrated);
+      applied.push(`v${migration.from} -> v${migration.from + 1}: ${migration.description}`);
+    }
+    return { config: migrated, version, applied };
+  }
+
+  /**
+   * Check a migrated config and return it with real Date objects; throws ConfigValidationError listing every problem
+   */
+  static validate(config: unknown, configPath: string): GSMConfig {
+    const issues = this.check(config);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(configPath, issues);
+    }
+    return this.reviveDates(config as GSMConfig);
+  }
+
+  /**
+   * Every problem in a config of the current version (empty when valid)
+   */
+  static check(config: unknown): string[] {
+    const checker = new Checker();
+    if (!checker.object(config, 'config')) {
+      return checker.issues;
+    }
+
+    if (config.version !== CURRENT_CONFIG_VERSION) {
+      checker.issues.push(`version: expected ${CURRENT_CONFIG_VERSION}, got ${JSON.stringify(config.version)}`);
+    }
+    checker.string(config.defaultSSHPath, 'defaultSSHPath');
+
+    if (checker.object(config.repositories, 'repositories')) {
+      for (const [key, repo] of Object.entries(config.repositories)) {
+        const where = `repositories[${JSON.stringify(key)}]`;
+        if (!checker.object(repo, where)) {
+          continue;
+        }
+        checker.string(repo.repoPath, `${where}.repoPath`);
+        if (typeof repo.repoPath === 'string' && repo.repoPath !== key) {
+          checker.issues.push(`${where}.repoPath: does not match its key (${JSON.stringify(repo.repoPath)})`);
+        }
+        checker.string(repo.gitCommonDir, `${where}.gitCommonDir`, true);
+        checker.string(repo.sshKeyPath, `${where}.sshKeyPath`);
+        checker.string(repo.remoteUrl, `${where}.remoteUrl`);
+        checker.string(repo.identity, `${where}.identity`, true);
+        checker.date(repo.createdAt, `${where}.createdAt`);
+        if (repo.lastTest !== undefined && checker.object(repo.lastTest, `${where}.lastTest`)) {
+          checker.boolean(repo.lastTest.success, `${where}.lastTest.success`);
+          checker.string(repo.lastTest.account, `${where}.lastTest.account`, true);
+          checker.string(repo.lastTest.error, `${where}.lastTest.error`, true);
+          checker.date(repo.lastTest.checkedAt, `${where}.lastTest.checkedAt`);
+        }
+      }
+    }
+
+    if (config.identities !== undefined && checker.object(config.identities, 'identities')) {
+      for (const [name, identity] of Object.entries(config.identities)) {
+        const where = `identities[${JSON.stringify(name)}]`;
+        if (!checker.object(identity, where)) {
+          continue;
+        }
+        checker.string(identity.name, `${where}.name`);
+        checker.string(identity.sshKeyPath, `${where}.sshKeyPath`);
+        checker.string(identity.userName, `${where}.userName`);
+        checker.string(identity.userEmail, `${where}.userEmail`);
+        checker.string(identity.signingKey, `${where}.signingKey`, true);
+      }
+    }
+
+    if (config.rules !== undefined) {
+      if (!Array.isArray(config.rules)) {
+        checker.issues.push('rules: expected a list');
+      } else {
+        config.rules.forEach((rule: unknown, index: number) => {
+          if (checker.object(rule, `rules[${index}]`)) {
+            checker.string(rule.pattern, `rules[${index}].pattern`);
+            checker.string(rule.sshKeyPath, `rules[${index}].sshKeyPath`);
+          }
+        });
+      }
+    }
+
+    if (config.accounts !== undefined && checker.object(config.accounts, 'accounts')) {
+      for (const [keyPath, hosts] of Object.entries(config.accounts)) {
+        const where = `accounts[${JSON.stringify(keyPath)}]`;
+        if (!checker.object(hosts, where)) {
+          continue;
+        }
+        for (const [host, entry] of Object.entries(hosts)) {
+          if (checker.object(entry, `${where}[${JSON.stringify(host)}]`)) {
+            checker.string(entry.account, `${where}[${JSON.stringify(host)}].account`);
+            checker.date(entry.checkedAt, `${where}[${JSON.stringify(host)}].checkedAt`);
+          }
+        }
+      }
+    }
+
+    if (config.policy !== undefined && checker.object(config.policy, 'policy')) {
+      checker.integer(config.policy.minRsaBits, 'policy.minRsaBits', true);
+      checker.boolean(config.policy.allowDsa, 'policy.allowDsa', true);
+      checker.boolean(config.policy.requirePassphrase, 'policy.requirePassphrase', true);
+      checker.integer(config.policy.maxKeyAgeDays, 'policy.maxKeyAgeDays', true);
+      checker.oneOf(config.policy.enforce, ['warn', 'refuse'], 'policy.enforce', true);
+    }
+
+    return checker.issues;
+  }
+
+  /**
+   * The config has passed check(), so only its timestamps are still ISO strings
+   */
+  private static reviveDates(config: GSMConfig): GSMConfig {
+    Object.values(config.repositories).forEach((repo: RepoConfig) => {
+      repo.createdAt = new Date(repo.createdAt);
+      if (repo.lastTest) {
+        repo.lastTest.checkedAt = new Date(repo.lastTest.checkedAt);
+      }
+    });
+    for (const hosts of Object.values(config.accounts || {})) {
+      Object.values(hosts).forEach((entry: KeyAccount) => {
+        entry.checkedAt = new Date(entry.checkedAt);
+      });
+    }
+    return config;
+  }
+}
@@ -0,0 +1,41 @@
+export type OutputFormat = 'table' | 'json' | 'tsv';
+
+const FORMATS: OutputFormat[] = ['table', 'json', 'tsv'];
+
+export class OutputFormatter {
+  /**
+   * Resolve --json / --format into a format; --json wins
+   */
+  static resolve(options: { json?: boolean; format?: string } = {}): OutputFormat {
+    if (options.json) {
+      return 'json';
+    }
+    const format = (options.format || 'table').toLowerCase() as OutputFormat;
+    if (!FORMATS.includes(format)) {
+      throw new Error(`Unknown output format '${options.format}' (use ${FORMATS.join(', ')})`);
+    }
+    return format;
+  }
+
+  static printJson(data: unknown): void {
+    console.log(JSON.stringify(data, null, 2));
+  }
+
+  /**
+   * Tab-separated rows with a header line. Lists are joined with commas, missing values are empty.
+   */
+  static printTsv(headers: string[], rows: unknown[][]): void {
+    const cell = (value: unknown): string => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+      const text = Array.isArray(value)
+        ? value.join(',')
+        : value instanceof Date ? value.toISOString() : String(value);
+      return text.replace(/[\t\r\n]+/g, ' ');
+    };
+
+    console.log(headers.join('\t'));
+    rows.forEach(row => console.log(row.map(cell).join('\t')));
+  }
+}
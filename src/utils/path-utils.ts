@@ -63,6 +63,20 @@ export class PathUtils {
     return path.join(this.getHomeDirectory(), '.ssh');
   }
 
+  /**
+   * Get the gitsm configuration directory (~/.gitsm)
+   */
+  static getGitsmDirectory(): string {
+    return path.join(this.getHomeDirectory(), '.gitsm');
+  }
+
+  /**
+   * Get the known_hosts file gitsm verifies host keys against
+   */
+  static getKnownHostsPath(): string {
+    return path.join(this.getGitsmDirectory(), 'known_hosts');
+  }
+
   /**
    * Escape path for shell command usage
    */
@@ -107,25 +121,22 @@ export class PathUtils {
 
   /**
    * Create a properly escaped SSH command for shell execution
+   * Used for GIT_SSH_COMMAND and core.sshCommand, which git runs through a shell
    */
   static createSSHCommand(sshKeyPath: string, extraOptions: string[] = []): string {
-    const normalizedPath = this.normalizeForSSH(sshKeyPath);
-    
-    // Build SSH command parts
-    const sshParts = [
-      'ssh',
-      '-i',
-      this.escapeForShell(normalizedPath),
-      '-F',
-      '/dev/null',
-      '-o',
-      'IdentitiesOnly=yes',
-      '-o',
-      'StrictHostKeyChecking=no',
-      ...extraOptions
-    ];
-    
-    return sshParts.join(' ');
+    return this.createSSHCommandArray(sshKeyPath, extraOptions)
+      .map(arg => this.quoteShellArg(arg))
+      .join(' ');
+  }
+
+  /**
+   * Quote a single argument for a POSIX shell (git uses sh for ssh commands on every platform)
+   */
+  static quoteShellArg(arg: string): string {
+    if (/^[\w@%+=:,./-]+$/.test(arg)) {
+      return arg;
+    }
+    return `"${arg.replace(/(["\\$`])/g, '\\$1')}"`;
   }
 
   /**
@@ -139,7 +150,8 @@ export class PathUtils {
       '-i', normalizedPath,
       '-F', '/dev/null',
       '-o', 'IdentitiesOnly=yes',
-      '-o', 'StrictHostKeyChecking=no',
+      '-o', 'StrictHostKeyChecking=yes',
+      '-o', `UserKnownHostsFile=${this.normalizeForSSH(this.getKnownHostsPath())}`,
       ...extraOptions
     ];
   }
@@ -0,0 +1,151 @@
+import { spawn, spawnSync } from 'child_process';
+
+export interface RunOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;         // Merged over process.env, e.g. { GIT_SSH_COMMAND: '...' }
+  timeout?: number;                // Milliseconds before the process is killed
+  stdio?: 'pipe' | 'inherit';      // 'inherit' streams straight to the terminal (nothing is captured)
+  input?: string;                  // Written to stdin when stdio is 'pipe'
+}
+
+export interface ProcessResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+export class ProcessError extends Error {
+  readonly command: string;
+  readonly exitCode: number;
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly timedOut: boolean;
+
+  constructor(command: string, result: ProcessResult, timedOut: boolean = false, cause?: string) {
+    const reason = timedOut
+      ? 'timed out'
+      : cause || `exited with code ${result.exitCode}`;
+    const details = result.stderr.trim() || result.stdout.trim();
+    super(`Command failed: ${command} (${reason})${details ? `\n${details}` : ''}`);
+    this.name = 'ProcessError';
+    this.command = command;
+    this.exitCode = result.exitCode;
+    this.stdout = result.stdout;
+    this.stderr = result.stderr;
+    this.timedOut = timedOut;
+  }
+}
+
+/**
+ * Runs external programs (git, ssh, ssh-keygen) with argument arrays.
+ * Nothing goes through a shell, so URLs, branch names and key paths are never interpreted.
+ */
+export class ProcessRunner {
+  /**
+   * Run a program and resolve with its output; rejects with ProcessError on a non-zero exit
+   */
+  static run(command: string, args: string[], options: RunOptions = {}): Promise<ProcessResult> {
+    return new Promise((resolve, reject) => {
+      const display = this.describe(command, args);
+      const child = spawn(command, args, {
+        cwd: options.cwd,
+        env: this.buildEnv(options.env),
+        stdio: options.stdio === 'inherit' ? 'inherit' : 'pipe',
+        windowsHide: true
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let settled = false;
+
+      child.stdout?.on('data', chunk => { stdout += chunk.toString(); });
+      child.stderr?.on('data', chunk => { stderr += chunk.toString(); });
+
+      const timer = options.timeout
+        ? setTimeout(() => {
+            timedOut = true;
+            child.kill('SIGTERM');
+          }, options.timeout)
+        : undefined;
+
+      child.on('error', error => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+        reject(new ProcessError(display, { exitCode: -1, stdout, stderr }, false, error.message));
+      });
+
+      child.on('close', code => {
+        if (settled) return;
+        settled = true;
+        if (timer) clearTimeout(timer);
+
+        const result = { exitCode: code ?? -1, stdout, stderr };
+        if (timedOut || result.exitCode !== 0) {
+          reject(new ProcessError(display, result, timedOut));
+        } else {
+          resolve(result);
+        }
+      });
+
+      if (child.stdin) {
+        if (options.input !== undefined) {
+          child.stdin.write(options.input);
+        }
+        child.stdin.end();
+      }
+    });
+  }
+
+  /**
+   * Synchronous variant of run() for callers that cannot be async
+   */
+  static runSync(command: string, args: string[], options: RunOptions = {}): ProcessResult {
+    const display = this.describe(command, args);
+    const child = spawnSync(command, args, {
+      cwd: options.cwd,
+      env: this.buildEnv(options.env),
+      stdio: options.stdio === 'inherit' ? 'inherit' : 'pipe',
+      input: options.stdio === 'inherit' ? undefined : options.input,
+      timeout: options.timeout,
+      encoding: 'utf8',
+      windowsHide: true
+    });
+
+    const result = {
+      exitCode: child.status ?? -1,
+      stdout: child.stdout || '',
+      stderr: child.stderr || ''
+    };
+
+    if (child.error) {
+      const timedOut = (child.error as NodeJS.ErrnoException).code === 'ETIMEDOUT';
+      throw new ProcessError(display, result, timedOut, child.error.message);
+    }
+    if (result.exitCode !== 0) {
+      throw new ProcessError(display, result);
+    }
+    return result;
+  }
+
+  /**
+   * Run a program and report whether it exited successfully, without throwing
+   */
+  static succeeds(command: string, args: string[], options: RunOptions = {}): boolean {
+    try {
+      this.runSync(command, args, options);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static buildEnv(env?: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+    return env ? { ...process.env, ...env } : process.env;
+  }
+
+  private static describe(command: string, args: string[]): string {
+    return [command, ...args.map(arg => /[\s"'$`\\]/.test(arg) ? JSON.stringify(arg) : arg)].join(' ');
+  }
+}
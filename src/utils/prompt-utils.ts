@@ -1,8 +1,55 @@
 import inquirer from 'inquirer';
-import { SSHKey } from '../types';
+import { SSHKey, KeyGenerationOptions, Identity } from '../types';
 import chalk from 'chalk';
 
+export const EXIT_PROMPT_REQUIRED = 3;
+
+/**
+ * Thrown instead of prompting when there is no terminal or --non-interactive is set
+ */
+export class PromptRequiredError extends Error {
+  readonly exitCode = EXIT_PROMPT_REQUIRED;
+
+  constructor(question: string, hint: string) {
+    super(`Input required: "${question.replace(/:$/, '')}" (${hint}). Run gitsm in a terminal or pass the answer as an option.`);
+    this.name = 'PromptRequiredError';
+  }
+}
+
+/**
+ * Report a PromptRequiredError and exit with its exit code; other errors are left to the caller
+ */
+export function exitIfPromptRequired(error: unknown): void {
+  if (error instanceof PromptRequiredError) {
+    console.error(chalk.red(`❌ ${error.message}`));
+    process.exit(error.exitCode);
+  }
+}
+
 export class PromptUtils {
+  private static nonInteractive = false;
+  private static assumeYes = false;
+
+  /**
+   * Set once per command from --non-interactive and --yes
+   */
+  static configure(options: { nonInteractive?: boolean; yes?: boolean }): void {
+    this.nonInteractive = !!options.nonInteractive;
+    this.assumeYes = !!options.yes;
+  }
+
+  static isInteractive(): boolean {
+    return !this.nonInteractive && !!process.stdin.isTTY;
+  }
+
+  private async ask(questions: inquirer.DistinctQuestion[], hint: string): Promise<inquirer.Answers> {
+    const pending = questions.filter(question => question.when !== false);
+    if (pending.length > 0 && !PromptUtils.isInteractive()) {
+      throw new PromptRequiredError(String(pending[0].message), hint);
+    }
+    return inquirer.prompt(questions);
+  }
+
   async selectSSHKey(keys: SSHKey[]): Promise<SSHKey> {
     if (keys.length === 0) {
       throw new Error('No SSH keys found in ~/.ssh directory');
@@ -20,7 +67,7 @@ export class PromptUtils {
       short: key.relativePath
     }));
 
-    const { selectedKey } = await inquirer.prompt([
+    const { selectedKey } = await this.ask([
       {
         type: 'list',
         name: 'selectedKey',
@@ -29,26 +76,67 @@ export class PromptUtils {
         pageSize: Math.min(keys.length, 8),
         loop: false
       }
-    ]);
+    ], 'use --key <name|path>');
 
     return selectedKey;
   }
 
-  async confirmAction(message: string): Promise<boolean> {
-    const { confirmed } = await inquirer.prompt([
+  /**
+   * Like selectSSHKey, but offers an extra choice to detect the working key automatically
+   */
+  async selectSSHKeyOrAuto(keys: SSHKey[]): Promise<SSHKey | 'auto'> {
+    if (keys.length <= 1) {
+      return this.selectSSHKey(keys);
+    }
+
+    const choices = [
+      { name: 'Auto-detect (test every key against the repository)', value: 'auto', short: 'auto' },
+      new inquirer.Separator(),
+      ...keys.map(key => ({
+        name: `${key.name} (${key.relativePath})`,
+        value: key,
+        short: key.relativePath
+      }))
+    ];
+
+    const { selectedKey } = await this.ask([
+      {
+        type: 'list',
+        name: 'selectedKey',
+        message: 'Select SSH key:',
+        choices,
+        pageSize: Math.min(choices.length, 8),
+        loop: false
+      }
+    ], 'use --key <name|path|auto>');
+
+    return selectedKey;
+  }
+
+  /**
+   * Ask a yes/no question. With --yes the default answer is taken without asking,
+   * so risky confirmations should default to false.
+   */
+  async confirmAction(message: string, defaultAnswer: boolean = true): Promise<boolean> {
+    if (PromptUtils.assumeYes) {
+      console.log(chalk.gray(`? ${message} ${defaultAnswer ? 'Yes' : 'No'} (--yes)`));
+      return defaultAnswer;
+    }
+
+    const { confirmed } = await this.ask([
       {
         type: 'confirm',
         name: 'confirmed',
         message,
-        default: true
+        default: defaultAnswer
       }
-    ]);
+    ], 'use --yes to accept the default answer');
 
     return confirmed;
   }
 
   async getTargetDirectory(defaultName: string): Promise<string> {
-    const { targetDir } = await inquirer.prompt([
+    const { targetDir } = await this.ask([
       {
         type: 'input',
         name: 'targetDir',
@@ -61,8 +149,180 @@ export class PromptUtils {
           return true;
         }
       }
-    ]);
+    ], 'use --dir <directory>');
 
     return targetDir.trim();
   }
+
+  /**
+   * How long ssh-agent keeps a key (ssh-add -t); empty means until the agent stops. --yes keeps it until then.
+   */
+  async getAgentLifetime(): Promise<string | undefined> {
+    if (PromptUtils.assumeYes) {
+      return undefined;
+    }
+
+    const { lifetime } = await this.ask([
+      {
+        type: 'input',
+        name: 'lifetime',
+        message: '⏱️  Keep it loaded for (e.g. 30m, 8h; empty = until the agent stops):',
+        validate: (input: string) => {
+          if (input.trim() && !/^\d+[smhdw]?$/i.test(input.trim())) {
+            return 'Use a number of seconds or a number followed by s, m, h, d or w';
+          }
+          return true;
+        }
+      }
+    ], 'load the key with ssh-add before running gitsm');
+
+    return lifetime.trim() || undefined;
+  }
+
+  async getKeyGenerationOptions(defaults: Partial<KeyGenerationOptions> = {}): Promise<KeyGenerationOptions> {
+    const answers = await this.ask([
+      {
+        type: 'list',
+        name: 'type',
+        message: 'Key type:',
+        choices: [
+          { name: 'ed25519 (recommended)', value: 'ed25519' },
+          { name: 'RSA 4096', value: 'rsa' }
+        ],
+        default: defaults.type || 'ed25519',
+        when: !defaults.type
+      },
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Key file name:',
+        default: (current: { type?: string }) => `id_${current.type || defaults.type || 'ed25519'}`,
+        validate: (input: string) => {
+          if (!input.trim()) {
+            return 'Key name cannot be empty';
+          }
+          if (/[\\/]/.test(input) || input.trim() === '.' || input.trim() === '..') {
+            return 'Key name cannot contain path separators';
+          }
+          return true;
+        },
+        when: !defaults.name
+      },
+      {
+        type: 'input',
+        name: 'comment',
+        message: 'Comment (usually your email):',
+        when: defaults.comment === undefined
+      },
+      {
+        type: 'confirm',
+        name: 'passphrase',
+        message: 'Protect the key with a passphrase? (ssh-keygen asks for it next)',
+        default: true,
+        when: defaults.passphrase === undefined
+      }
+    ], 'use --type, --name, --comment and --no-passphrase');
+
+    return {
+      type: defaults.type || answers.type,
+      name: (defaults.name || answers.name).trim(),
+      comment: defaults.comment ?? answers.comment?.trim(),
+      passphrase: defaults.passphrase ?? answers.passphrase
+    };
+  }
+
+  async selectIdentity(identities: Identity[]): Promise<Identity | null> {
+    if (identities.length === 0) {
+      return null;
+    }
+
+    const choices = [
+      ...identities.map(identity => ({
+        name: `${identity.name} (${identity.userName} <${identity.userEmail}>)`,
+        value: identity,
+        short: identity.name
+      })),
+      new inquirer.Separator(),
+      { name: 'No identity - select an SSH key only', value: null, short: 'SSH key only' }
+    ];
+
+    // An identity is optional, so scripts simply continue without one
+    if (!PromptUtils.isInteractive()) {
+      return null;
+    }
+
+    const { selectedIdentity } = await this.ask([
+      {
+        type: 'list',
+        name: 'selectedIdentity',
+        message: 'Select identity:',
+        choices,
+        pageSize: Math.min(choices.length, 8),
+        loop: false
+      }
+    ], 'use --identity <name>');
+
+    return selectedIdentity;
+  }
+
+  async getIdentityDetails(keys: SSHKey[], defaults: Partial<Identity> = {}): Promise<Omit<Identity, 'name'>> {
+    const answers = await this.ask([
+      {
+        type: 'list',
+        name: 'sshKeyPath',
+        message: 'SSH key for this identity:',
+        choices: keys.map(key => ({ name: `${key.name} (${key.relativePath})`, value: key.path, short: key.relativePath })),
+        when: !defaults.sshKeyPath
+      },
+      {
+        type: 'input',
+        name: 'userName',
+        message: 'Commit author name (user.name):',
+        validate: (input: string) => input.trim() ? true : 'Name cannot be empty',
+        when: !defaults.userName
+      },
+      {
+        type: 'input',
+        name: 'userEmail',
+        message: 'Commit author email (user.email):',
+        validate: (input: string) => input.includes('@') ? true : 'Please enter a valid email address',
+        when: !defaults.userEmail
+      },
+      {
+        type: 'input',
+        name: 'signingKey',
+        message: 'Signing key (user.signingkey, leave empty for none):',
+        when: defaults.signingKey === undefined
+      }
+    ], 'use --key, --user-name, --email and --signing-key');
+
+    return {
+      sshKeyPath: defaults.sshKeyPath || answers.sshKeyPath,
+      userName: (defaults.userName || answers.userName).trim(),
+      userEmail: (defaults.userEmail || answers.userEmail).trim(),
+      signingKey: (defaults.signingKey ?? answers.signingKey)?.trim() || undefined
+    };
+  }
+
+  /**
+   * Checkbox list; --yes takes the pre-checked choices
+   */
+  async selectMany<T>(message: string, choices: { name: string; value: T; checked?: boolean }[]): Promise<T[]> {
+    if (PromptUtils.assumeYes) {
+      return choices.filter(choice => choice.checked).map(choice => choice.value);
+    }
+
+    const { selected } = await this.ask([
+      {
+        type: 'checkbox',
+        name: 'selected',
+        message,
+        choices,
+        pageSize: Math.min(choices.length, 12),
+        loop: false
+      }
+    ], 'use --yes to accept the proposed selection');
+
+    return selected;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RemoteUrl } from './remote-url';
+
+const cases: {
+  url: string;
+  protocol: string;
+  user?: string;
+  host: string;
+  port?: number;
+  owner: string;
+  repo: string;
+  ssh: string;
+  https: string;
+}[] = [
+  {
+    url: 'git@github.com:acme/api.git',
+    protocol: 'ssh', user: 'git', host: 'github.com', owner: 'acme', repo: 'api',
+    ssh: 'git@github.com:acme/api.git',
+    https: 'https://github.com/acme/api.git'
+  },
+  {
+    url: 'ssh://git@git.example.com:2222/acme/api.git',
+    protocol: 'ssh', user: 'git', host: 'git.example.com', port: 2222, owner: 'acme', repo: 'api',
+    ssh: 'ssh://git@git.example.com:2222/acme/api.git',
+    https: 'https://git.example.com/acme/api.git'
+  },
+  {
+    url: 'git@gitlab.com:group/subgroup/team/api.git',
+    protocol: 'ssh', user: 'git', host: 'gitlab.com', owner: 'group/subgroup/team', repo: 'api',
+    ssh: 'git@gitlab.com:group/subgroup/team/api.git',
+    https: 'https://gitlab.com/group/subgroup/team/api.git'
+  },
+  {
+    url: 'https://gitlab.com/group/subgroup/api',
+    protocol: 'https', host: 'gitlab.com', owner: 'group/subgroup', repo: 'api',
+    ssh: 'git@gitlab.com:group/subgroup/api',
+    https: 'https://gitlab.com/group/subgroup/api'
+  },
+  {
+    url: 'git@ssh.dev.azure.com:v3/org/project/repo',
+    protocol: 'ssh', user: 'git', host: 'ssh.dev.azure.com', owner: 'org/project', repo: 'repo',
+    ssh: 'git@ssh.dev.azure.com:v3/org/project/repo',
+    https: 'https://dev.azure.com/org/project/_git/repo'
+  },
+  {
+    url: 'https://dev.azure.com/org/project/_git/repo',
+    protocol: 'https', host: 'dev.azure.com', owner: 'org/project', repo: 'repo',
+    ssh: 'git@ssh.dev.azure.com:v3/org/project/repo',
+    https: 'https://dev.azure.com/org/project/_git/repo'
+  },
+  {
+    url: 'org@vs-ssh.visualstudio.com:v3/org/project/repo',
+    protocol: 'ssh', user: 'org', host: 'vs-ssh.visualstudio.com', owner: 'org/project', repo: 'repo',
+    ssh: 'org@vs-ssh.visualstudio.com:v3/org/project/repo',
+    https: 'https://org.visualstudio.com/project/_git/repo'
+  },
+  {
+    url: 'https://octocat@github.com/acme/api.git',
+    protocol: 'https', user: 'octocat', host: 'github.com', owner: 'acme', repo: 'api',
+    ssh: 'git@github.com:acme/api.git',
+    https: 'https://octocat@github.com/acme/api.git'
+  },
+  {
+    url: 'https://first.last%40example.com@bitbucket.org/team/repo.git',
+    protocol: 'https', user: 'first.last@example.com', host: 'bitbucket.org', owner: 'team', repo: 'repo',
+    ssh: 'git@bitbucket.org:team/repo.git',
+    https: 'https://first.last%40example.com@bitbucket.org/team/repo.git'
+  },
+  {
+    url: 'git+ssh://git@GitHub.com/acme/api.git',
+    protocol: 'ssh', user: 'git', host: 'github.com', owner: 'acme', repo: 'api',
+    ssh: 'git+ssh://git@github.com/acme/api.git',
+    https: 'https://github.com/acme/api.git'
+  }
+];
+
+for (const expected of cases) {
+  test(`parses ${expected.url}`, () => {
+    const remote = RemoteUrl.parse(expected.url);
+    assert.equal(remote.protocol, expected.protocol);
+    assert.equal(remote.user, expected.user);
+    assert.equal(remote.host, expected.host);
+    assert.equal(remote.port, expected.port);
+    assert.equal(remote.owner, expected.owner);
+    assert.equal(remote.repo, expected.repo);
+    assert.equal(remote.toSSH().format(), expected.ssh);
+    assert.equal(remote.toHTTPS().format(), expected.https);
+  });
+}
+
+test('format() reproduces the URL as written', () => {
+  for (const { url } of cases.filter(({ url }) => url === url.toLowerCase())) {
+    assert.equal(RemoteUrl.parse(url).format(), url);
+  }
+});
+
+test('rejects local paths and incomplete URLs', () => {
+  for (const url of ['/srv/git/repo.git', 'C:\\repos\\api', 'C:/repos/api', 'git@github.com:api.git', 'https://github.com/acme', 'ftp://example.com/acme/api.git', 'git@github.com:acme/../api.git']) {
+    assert.equal(RemoteUrl.tryParse(url), null, url);
+  }
+  assert.throws(() => RemoteUrl.parse('git@dev.azure.com:v3/org/repo'), /Invalid repository URL format|Unrecognized Azure DevOps/);
+});
+
+test('isSSH() only accepts SSH remotes', () => {
+  assert.equal(RemoteUrl.isSSH('git@github.com:acme/api.git'), true);
+  assert.equal(RemoteUrl.isSSH('ssh://git@host:2222/acme/api'), true);
+  assert.equal(RemoteUrl.isSSH('https://github.com/acme/api.git'), false);
+  assert.equal(RemoteUrl.isSSH('/srv/git/repo.git'), false);
+});
+
+test('sameRepository() ignores protocol, user and .git', () => {
+  const ssh = RemoteUrl.parse('git@ssh.dev.azure.com:v3/org/project/repo');
+  assert.equal(ssh.sameRepository(RemoteUrl.parse('https://dev.azure.com/org/project/_git/repo')), true);
+  assert.equal(RemoteUrl.parse('git@github.com:acme/api.git').sameRepository(RemoteUrl.parse('https://user@github.com/acme/api')), true);
+  assert.equal(RemoteUrl.parse('git@github.com:acme/api.git').sameRepository(RemoteUrl.parse('git@github.com:acme/web.git')), false);
+});
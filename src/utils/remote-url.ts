@@ -0,0 +1,237 @@
+export type RemoteProtocol = 'ssh' | 'https' | 'http';
+
+/**
+ * A parsed git remote URL.
+ *
+ * Handles scp-style (git@host:group/repo.git), ssh:// with ports, HTTPS with embedded
+ * usernames, nested GitLab groups and Azure DevOps. format() reproduces the URL as it
+ * was written (with the host lower-cased), and toSSH()/toHTTPS() keep the full repository path.
+ */
+export class RemoteUrl {
+  readonly protocol: RemoteProtocol;
+  readonly scheme: string;        // As written, e.g. "git+ssh" (empty for scp-style)
+  readonly style: 'scp' | 'url';
+  readonly user?: string;
+  readonly password?: string;
+  readonly host: string;
+  readonly port?: number;
+  readonly path: string;          // As written, without the leading slash (may end in .git)
+
+  private constructor(fields: {
+    protocol: RemoteProtocol;
+    scheme?: string;
+    style: 'scp' | 'url';
+    user?: string;
+    password?: string;
+    host: string;
+    port?: number;
+    path: string;
+  }) {
+    this.protocol = fields.protocol;
+    this.scheme = fields.scheme ?? (fields.style === 'url' ? fields.protocol : '');
+    this.style = fields.style;
+    this.user = fields.user;
+    this.password = fields.password;
+    this.host = fields.host;
+    this.port = fields.port;
+    this.path = fields.path;
+  }
+
+  static parse(url: string): RemoteUrl {
+    const trimmed = url.trim();
+
+    // URL form: ssh://git@host:2222/group/repo.git, https://user@host/group/repo.git
+    const urlMatch = trimmed.match(/^([a-z][a-z0-9+.-]*):\/\/(?:([^@/:]*)(?::([^@/]*))?@)?(\[[^\]]+\]|[^/:]+)(?::(\d+))?\/(.+)$/i);
+    if (urlMatch) {
+      const [, scheme, user, password, host, port, path] = urlMatch;
+      const protocol = this.toProtocol(scheme);
+      if (!protocol) {
+        throw new Error(`Unsupported repository URL protocol '${scheme}': ${url}`);
+      }
+      return this.validated(url, new RemoteUrl({
+        protocol,
+        scheme,
+        style: 'url',
+        user: user ? decodeURIComponent(user) : undefined,
+        password: password ? decodeURIComponent(password) : undefined,
+        host: host.toLowerCase(),
+        port: port ? parseInt(port, 10) : undefined,
+        path: path.replace(/\/+$/, '')
+      }));
+    }
+
+    // scp-style: git@host:group/repo.git (a single letter before ':' is a Windows drive, not a host)
+    const scpMatch = trimmed.match(/^(?:([^@/]+)@)?([^@/:]{2,}):(?!\/\/)(.+)$/);
+    if (scpMatch) {
+      const [, user, host, path] = scpMatch;
+      return this.validated(url, new RemoteUrl({
+        protocol: 'ssh',
+        style: 'scp',
+        user,
+        host: host.toLowerCase(),
+        path: path.replace(/\/+$/, '')
+      }));
+    }
+
+    throw new Error(`Invalid repository URL format: ${url}`);
+  }
+
+  /**
+   * Parse without throwing; returns null for local paths and unsupported URLs
+   */
+  static tryParse(url: string): RemoteUrl | null {
+    try {
+      return this.parse(url);
+    } catch {
+      return null;
+    }
+  }
+
+  static isSSH(url: string): boolean {
+    return this.tryParse(url)?.isSSH ?? false;
+  }
+
+  get isSSH(): boolean {
+    return this.protocol === 'ssh';
+  }
+
+  get isAzureDevOps(): boolean {
+    return ['dev.azure.com', 'ssh.dev.azure.com', 'vs-ssh.visualstudio.com'].includes(this.host) ||
+      this.host.endsWith('.visualstudio.com');
+  }
+
+  /**
+   * Repository name without .git, e.g. "repo"
+   */
+  get repo(): string {
+    const segments = this.repoSegments();
+    return segments[segments.length - 1];
+  }
+
+  /**
+   * Everything above the repository: "owner", "group/subgroup" or, for Azure DevOps, "org/project"
+   */
+  get owner(): string {
+    return this.repoSegments().slice(0, -1).join('/');
+  }
+
+  format(): string {
+    const user = this.user
+      ? `${this.style === 'url' ? encodeURIComponent(this.user) : this.user}${this.password ? `:${encodeURIComponent(this.password)}` : ''}@`
+      : '';
+
+    if (this.style === 'scp') {
+      return `${user}${this.host}:${this.path}`;
+    }
+    const port = this.port ? `:${this.port}` : '';
+    return `${this.scheme}://${user}${this.host}${port}/${this.path}`;
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  /**
+   * Whether both URLs point at the same repository, whatever the protocol or user
+   */
+  sameRepository(other: RemoteUrl): boolean {
+    try {
+      const [a, b] = [this.toHTTPS(), other.toHTTPS()];
+      return a.host === b.host && a.path.replace(/\.git$/, '') === b.path.replace(/\.git$/, '');
+    } catch {
+      return false;   // Malformed Azure DevOps path
+    }
+  }
+
+  toSSH(): RemoteUrl {
+    if (this.isSSH) {
+      return this;
+    }
+
+    if (this.isAzureDevOps) {
+      const [org, project, repo] = this.azureParts();
+      const sshHost = this.host === 'dev.azure.com' ? 'ssh.dev.azure.com' : 'vs-ssh.visualstudio.com';
+      return new RemoteUrl({
+        protocol: 'ssh',
+        style: 'scp',
+        user: sshHost === 'ssh.dev.azure.com' ? 'git' : org,
+        host: sshHost,
+        path: `v3/${org}/${project}/${repo}`
+      });
+    }
+
+    // The HTTPS port says nothing about the SSH port, so it is dropped
+    return new RemoteUrl({ protocol: 'ssh', style: 'scp', user: 'git', host: this.host, path: this.path });
+  }
+
+  toHTTPS(): RemoteUrl {
+    if (this.protocol === 'https') {
+      return this;
+    }
+
+    if (this.isAzureDevOps) {
+      const [org, project, repo] = this.azureParts();
+      const path = `${project}/_git/${repo}`;
+      return this.host === 'ssh.dev.azure.com'
+        ? new RemoteUrl({ protocol: 'https', style: 'url', host: 'dev.azure.com', path: `${org}/${path}` })
+        : new RemoteUrl({ protocol: 'https', style: 'url', host: `${org}.visualstudio.com`, path });
+    }
+
+    return new RemoteUrl({ protocol: 'https', style: 'url', host: this.host, path: this.path });
+  }
+
+  private repoSegments(): string[] {
+    if (this.isAzureDevOps) {
+      const [org, project, repo] = this.azureParts();
+      return [org, project, repo];
+    }
+    return this.path.replace(/\.git$/, '').split('/').filter(Boolean);
+  }
+
+  /**
+   * [organization, project, repository] for the four Azure DevOps URL shapes:
+   *   git@ssh.dev.azure.com:v3/org/project/repo        https://dev.azure.com/org/project/_git/repo
+   *   org@vs-ssh.visualstudio.com:v3/org/project/repo  https://org.visualstudio.com/[collection/]project/_git/repo
+   */
+  private azureParts(): [string, string, string] {
+    const segments = this.path.replace(/\.git$/, '').split('/').filter(Boolean);
+
+    if (segments[0] === 'v3' && segments.length === 4) {
+      return [segments[1], segments[2], segments[3]];
+    }
+
+    const gitIndex = segments.indexOf('_git');
+    if (gitIndex > 0 && gitIndex === segments.length - 2) {
+      const repo = segments[gitIndex + 1];
+      const project = segments[gitIndex - 1];
+      const org = this.host === 'dev.azure.com' ? segments[0] : this.host.split('.')[0];
+      return [org, project, repo];
+    }
+
+    throw new Error(`Unrecognized Azure DevOps repository URL: ${this.format()}`);
+  }
+
+  private static validated(url: string, remote: RemoteUrl): RemoteUrl {
+    // owner/repo at minimum, and Azure URLs must have a recognizable shape
+    const segments = remote.repoSegments();
+    if (segments.length < 2 || segments.some(segment => segment === '.' || segment === '..')) {
+      throw new Error(`Invalid repository URL format: ${url}`);
+    }
+    return remote;
+  }
+
+  private static toProtocol(scheme: string): RemoteProtocol | null {
+    switch (scheme.toLowerCase()) {
+      case 'ssh':
+      case 'git+ssh':
+      case 'ssh+git':
+        return 'ssh';
+      case 'https':
+        return 'https';
+      case 'http':
+        return 'http';
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SSHKeyParser } from './ssh-key-parser';
+
+// Keys are generated per run and compared with what ssh-keygen itself reports
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gitsm-keys-'));
+process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+
+const generate = (name: string, args: string[]): string => {
+  const keyPath = path.join(dir, name);
+  execFileSync('ssh-keygen', ['-q', '-f', keyPath, '-C', `${name}@test`, ...args]);
+  return keyPath;
+};
+
+const keygenFingerprint = (keyPath: string, hash: 'sha256' | 'md5'): string =>
+  execFileSync('ssh-keygen', ['-l', '-E', hash, '-f', `${keyPath}.pub`]).toString().split(' ')[1];
+
+const keys = [
+  { name: 'ed25519', args: ['-t', 'ed25519', '-N', ''], type: 'ed25519', bits: 256, format: 'openssh', encrypted: false },
+  { name: 'rsa', args: ['-t', 'rsa', '-b', '2048', '-N', 'secret'], type: 'rsa', bits: 2048, format: 'openssh', encrypted: true },
+  { name: 'ecdsa', args: ['-t', 'ecdsa', '-b', '384', '-N', ''], type: 'ecdsa', bits: 384, format: 'openssh', encrypted: false },
+  { name: 'rsa-pem', args: ['-t', 'rsa', '-b', '2048', '-m', 'PEM', '-N', 'secret'], type: 'rsa', bits: 2048, format: 'pem', encrypted: true }
+];
+
+for (const expected of keys) {
+  test(`reads a ${expected.name} key like ssh-keygen`, () => {
+    const keyPath = generate(expected.name, expected.args);
+
+    const publicKey = SSHKeyParser.parsePublicKey(fs.readFileSync(`${keyPath}.pub`, 'utf8'));
+    assert.equal(publicKey.type, expected.type);
+    assert.equal(publicKey.bits, expected.bits);
+    assert.equal(publicKey.comment, `${expected.name}@test`);
+    assert.equal(publicKey.fingerprint, keygenFingerprint(keyPath, 'sha256'));
+    assert.equal(publicKey.fingerprintMD5, keygenFingerprint(keyPath, 'md5'));
+
+    const privateKey = SSHKeyParser.parsePrivateKey(fs.readFileSync(keyPath, 'utf8'));
+    assert.equal(privateKey.format, expected.format);
+    assert.equal(privateKey.encrypted, expected.encrypted);
+    assert.equal(privateKey.type, expected.type);
+    if (expected.format === 'openssh') {
+      assert.equal(privateKey.publicKey?.fingerprint, publicKey.fingerprint);
+    }
+  });
+}
+
+test('rejects malformed public keys', () => {
+  const line = fs.readFileSync(`${generate('mismatch', ['-t', 'ed25519', '-N', ''])}.pub`, 'utf8');
+  assert.throws(() => SSHKeyParser.parsePublicKey(line.replace('ssh-ed25519', 'ssh-rsa')), /does not match/);
+  assert.throws(() => SSHKeyParser.parsePublicKey('ssh-ed25519'), /Not an OpenSSH public key/);
+  const rsaLine = fs.readFileSync(`${generate('truncated', ['-t', 'rsa', '-b', '2048', '-N', ''])}.pub`, 'utf8');
+  assert.throws(() => SSHKeyParser.parsePublicKey(`ssh-rsa ${rsaLine.split(' ')[1].slice(0, 40)}`), /Truncated key data/);
+});
+
+test('reports files that are not private keys as unknown', () => {
+  assert.deepEqual(SSHKeyParser.parsePrivateKey('not a key'), { format: 'unknown', encrypted: false, type: null, publicKey: null });
+});